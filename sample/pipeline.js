@@ -1,28 +1,9 @@
 exports.start = (pipeline) => {
-	const templates = {
-		main: {
-			file: "templates/main.html",
-			assets: [{ input: "templates/style.css", output: "style.css" }],
-		},
-	};
-
-	async function useTemplate(item) {
-		// try to match template
-		let template = templates[item.data.template];
-		if (template) {
-			let itemHtml = item.output.text;
-
-			// replace output with template, then replace tags
-			let templateText = await pipeline.readTextFileAsync(template.file);
-			item.output = { ...item.output, text: templateText };
-			await item.replaceOutputTagsAsync({
-				"template-content": () => itemHtml,
-			});
-
-			// add assets for this template as well
-			pipeline.addAssets(...template.assets);
-		}
-	}
+	// add a template, used by items with `template: main` in front matter
+	pipeline.addTemplate("main", {
+		file: "templates/main.html",
+		assets: [{ input: "templates/style.css", output: "style.css" }],
+	});
 
 	async function sampleTag(item) {
 		await item.replaceSourceTagsAsync({
@@ -36,7 +17,6 @@ exports.start = (pipeline) => {
 
 	// add transform functions
 	pipeline.addSourceTransform(sampleTag);
-	pipeline.addOutputTransform(useTemplate);
 
 	// add a pipeline item from a string rather than a file
 	let virtualItem = pipeline.addSource(
@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { OutputSink } from "./OutputSink";
+import { normalizeOutputPath } from "./paths";
+
+/** The size of a tar header and data block */
+const BLOCK_SIZE = 512;
+
+/**
+ * An output sink that writes all output files and assets to a single (ustar format) `.tar` archive, which is compressed using gzip if the file name ends with `.gz` or `.tgz`
+ */
+export class ArchiveSink implements OutputSink {
+	/** Creates a new sink for given archive file name */
+	constructor(fileName: string) {
+		this.fileName = fileName;
+	}
+
+	/** The archive file path, relative to the current environment directory */
+	readonly fileName: string;
+
+	async writeTextFileAsync(outputPath: string, text: string) {
+		this._entries.set(normalizeOutputPath(outputPath), Buffer.from(text));
+	}
+
+	async copyFileAsync(input: string, outputPath: string) {
+		if (!fs.existsSync(input))
+			throw Error("Asset file does not exist: " + input);
+		this._entries.set(normalizeOutputPath(outputPath), input);
+	}
+
+	/** Writes the archive file, including all output from previous builds */
+	async flushAsync() {
+		let blocks: Buffer[] = [];
+		let mtime = Math.floor(Date.now() / 1000);
+		for (let [name, entry] of this._entries) {
+			let data =
+				typeof entry === "string" ? await fs.promises.readFile(entry) : entry;
+			blocks.push(this._header(name, data.length, mtime), data);
+			let padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+			if (padding) blocks.push(Buffer.alloc(padding));
+		}
+		blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+		let archive = Buffer.concat(blocks);
+		if (/\.t?gz$/i.test(this.fileName)) archive = zlib.gzipSync(archive);
+		let dirName = path.dirname(this.fileName);
+		if (!fs.existsSync(dirName)) {
+			fs.mkdirSync(dirName, { recursive: true });
+		}
+		await fs.promises.writeFile(this.fileName, archive);
+	}
+
+	/** Returns a ustar header block for given entry */
+	private _header(name: string, size: number, mtime: number) {
+		let header = Buffer.alloc(BLOCK_SIZE);
+		let prefix = "";
+		if (Buffer.byteLength(name) > 100) {
+			// split long names into prefix and name at a slash
+			let idx = name.indexOf("/");
+			while (
+				idx > 0 &&
+				Buffer.byteLength(name.slice(idx + 1)) > 100 &&
+				Buffer.byteLength(name.slice(0, idx)) <= 155
+			) {
+				idx = name.indexOf("/", idx + 1);
+			}
+			if (
+				idx <= 0 ||
+				Buffer.byteLength(name.slice(idx + 1)) > 100 ||
+				Buffer.byteLength(name.slice(0, idx)) > 155
+			) {
+				throw Error("Output path is too long for archive: " + name);
+			}
+			prefix = name.slice(0, idx);
+			name = name.slice(idx + 1);
+		}
+		const octal = (n: number, len: number) =>
+			n.toString(8).padStart(len - 1, "0") + "\0";
+		header.write(name, 0);
+		header.write(octal(0o644, 8), 100);
+		header.write(octal(0, 8), 108);
+		header.write(octal(0, 8), 116);
+		header.write(octal(size, 12), 124);
+		header.write(octal(mtime, 12), 136);
+		header.write("        ", 148);
+		header.write("0", 156);
+		header.write("ustar\0", 257);
+		header.write("00", 263);
+		header.write(prefix, 345);
+
+		// checksum is calculated with spaces in the checksum field itself
+		let sum = 0;
+		for (let i = 0; i < BLOCK_SIZE; i++) sum += header[i]!;
+		header.write(sum.toString(8).padStart(6, "0") + "\0 ", 148);
+		return header;
+	}
+
+	private _entries = new Map<string, Buffer | string>();
+}
@@ -0,0 +1,94 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { normalizeOutputPath } from "./paths";
+
+/**
+ * An entry in the build cache manifest, for a single output file
+ */
+export interface BuildCacheEntry {
+	/** The content hash of the output text, or of the asset input file */
+	hash: string;
+
+	/** The asset input path, if the output file is a copied asset */
+	input?: string;
+}
+
+/**
+ * A persistent cache that stores content hashes of all output files (and asset input files) between builds, in a manifest file within the cache directory
+ */
+export class BuildCache {
+	/**
+	 * Creates a new cache; the manifest is loaded when needed
+	 * @param cachePath The cache directory, relative to the current environment directory
+	 * @param destPath The destination directory of all output files; if the manifest was written for another destination, it's not used
+	 */
+	constructor(cachePath: string, destPath: string) {
+		this.cachePath = cachePath;
+		this.destPath = destPath;
+	}
+
+	/** The cache directory, relative to the current environment directory */
+	readonly cachePath: string;
+
+	/** The destination directory of all output files */
+	readonly destPath: string;
+
+	/** Returns a content hash for given text or file data */
+	static hash(data: string | Buffer) {
+		return crypto.createHash("sha1").update(data).digest("hex");
+	}
+
+	/** Loads the manifest file, if it exists and hasn't been loaded yet */
+	async loadAsync() {
+		return (this._loadP ||= (async () => {
+			let fileName = path.join(this.cachePath, "manifest.json");
+			if (!fs.existsSync(fileName)) return;
+			try {
+				let manifest = JSON.parse(await fs.promises.readFile(fileName, "utf8"));
+				if (manifest.destPath !== path.resolve(this.destPath)) return;
+				for (let outputPath in manifest.files) {
+					this._entries.set(outputPath, manifest.files[outputPath]);
+				}
+			} catch {
+				// ignore invalid manifest, start over
+			}
+		})());
+	}
+
+	/** Writes the manifest file, creating the cache directory if needed */
+	async saveAsync() {
+		await this.loadAsync();
+		let files: { [outputPath: string]: BuildCacheEntry } = {};
+		for (let [outputPath, entry] of this._entries) files[outputPath] = entry;
+		let manifest = { destPath: path.resolve(this.destPath), files };
+		await fs.promises.mkdir(this.cachePath, { recursive: true });
+		await fs.promises.writeFile(
+			path.join(this.cachePath, "manifest.json"),
+			JSON.stringify(manifest, undefined, "\t")
+		);
+	}
+
+	/** Returns the manifest entry for given output path, if any */
+	get(outputPath: string) {
+		return this._entries.get(normalizeOutputPath(outputPath));
+	}
+
+	/** Adds or updates the manifest entry for given output path */
+	set(outputPath: string, entry: BuildCacheEntry) {
+		this._entries.set(normalizeOutputPath(outputPath), entry);
+	}
+
+	/** Removes the manifest entry for given output path */
+	delete(outputPath: string) {
+		this._entries.delete(normalizeOutputPath(outputPath));
+	}
+
+	/** Returns the (normalized) paths of all output files in the manifest */
+	getOutputPaths() {
+		return Array.from(this._entries.keys());
+	}
+
+	private _loadP?: Promise<void>;
+	private _entries = new Map<string, BuildCacheEntry>();
+}
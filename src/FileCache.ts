@@ -26,6 +26,19 @@ export class FileCache {
 		return p;
 	}
 
+	/**
+	 * Removes given file from the cache, so that it will be read from disk again, and can be copied again as an asset.
+	 * @param fileName The path of the source file
+	 */
+	invalidate(fileName: string) {
+		let abs = path.resolve(fileName);
+		this._cache.delete(abs);
+		this._cacheP.delete(abs);
+		for (let [output, input] of this._copied) {
+			if (path.resolve(input) === abs) this._copied.delete(output);
+		}
+	}
+
 	/**
 	 * Writes a text file with given text, possibly creating folders along the way
 	 * @param fileName The path of the destination file
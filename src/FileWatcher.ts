@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A utility class that watches a set of files for changes, and invokes a callback with a list of changed files after a short delay.
+ */
+export class FileWatcher {
+	/**
+	 * Creates a new file watcher; call `update()` to start watching files.
+	 * @param callback A function that is called with a list of (absolute) paths of all files that have changed
+	 * @param delay The time to wait for further changes before invoking the callback, in milliseconds
+	 */
+	constructor(callback: (fileNames: string[]) => void, delay = 100) {
+		this._callback = callback;
+		this._delay = delay;
+	}
+
+	/**
+	 * Updates the set of watched files: starts watching new files, and stops watching files that are not included anymore.
+	 * @param fileNames The paths of all files to watch
+	 */
+	update(fileNames: Iterable<string>) {
+		let files = new Set<string>();
+		for (let fileName of fileNames) files.add(path.resolve(fileName));
+		for (let [fileName, watcher] of this._watchers) {
+			if (!files.has(fileName)) {
+				watcher.close();
+				this._watchers.delete(fileName);
+			}
+		}
+		for (let fileName of files) {
+			if (this._watchers.has(fileName) || !fs.existsSync(fileName)) continue;
+			let watcher = fs.watch(fileName, (event) => {
+				// files that are replaced (e.g. by editors) must be watched again,
+				// which happens on the next call to `update()`
+				if (event === "rename") {
+					watcher.close();
+					this._watchers.delete(fileName);
+				}
+				this._changed.add(fileName);
+				this._schedule();
+			});
+			this._watchers.set(fileName, watcher);
+		}
+	}
+
+	/** Stops watching all files */
+	close() {
+		for (let watcher of this._watchers.values()) watcher.close();
+		this._watchers.clear();
+		if (this._timer) clearTimeout(this._timer);
+	}
+
+	/** Invokes the callback after a delay, unless more changes come in */
+	private _schedule() {
+		if (this._timer) clearTimeout(this._timer);
+		this._timer = setTimeout(() => {
+			this._timer = undefined;
+			let changed = Array.from(this._changed);
+			this._changed.clear();
+			this._callback(changed);
+		}, this._delay);
+	}
+
+	private _callback: (fileNames: string[]) => void;
+	private _delay: number;
+	private _timer?: NodeJS.Timeout;
+	private _changed = new Set<string>();
+	private _watchers = new Map<string, fs.FSWatcher>();
+}
@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BuildCache } from "./BuildCache";
+import { FileCache } from "./FileCache";
+import { normalizeOutputPath } from "./paths";
+
+/**
+ * An interface for objects that receive all output files and assets at the end of a build, e.g. to write them to disk
+ */
+export interface OutputSink {
+	/**
+	 * Writes an output (text) file.
+	 * @param outputPath The output file path, relative to the destination base path
+	 * @param text The text to write
+	 */
+	writeTextFileAsync(outputPath: string, text: string): Promise<void>;
+
+	/**
+	 * Copies an asset file.
+	 * @param input The input file path, relative to the current environment directory
+	 * @param outputPath The output file path, relative to the destination base path
+	 */
+	copyFileAsync(input: string, outputPath: string): Promise<void>;
+
+	/**
+	 * Removes output files from previous builds that haven't been written again, if implemented; called after a complete build (not after a rebuild), before `flushAsync()`.
+	 * @returns A promise for the list of removed output paths
+	 */
+	cleanAsync?(): Promise<string[]>;
+
+	/** Called after all output of a build (or rebuild) has been written, if implemented */
+	flushAsync?(): Promise<void>;
+}
+
+/**
+ * An output sink that writes all files to a destination directory on disk, optionally using a persistent build cache to skip unchanged files and remove stale output
+ */
+export class FileSystemSink implements OutputSink {
+	/**
+	 * Creates a new sink for given destination directory
+	 * @param destPath The destination directory
+	 * @param cachePath The build cache directory, if any; if specified, unchanged output files and assets aren't written again, and output files that were written by a previous build (but not by the current build) are removed
+	 */
+	constructor(destPath: string, cachePath?: string) {
+		this.destPath = destPath;
+		if (cachePath) this._cache = new BuildCache(cachePath, destPath);
+	}
+
+	/** The destination directory, relative to the current environment directory */
+	readonly destPath: string;
+
+	async writeTextFileAsync(outputPath: string, text: string) {
+		let hash = this._cache && BuildCache.hash(text);
+		if (hash && (await this._isUnchangedAsync(outputPath, hash))) return;
+		await this._files.writeTextFileAsync(
+			path.join(this.destPath, outputPath),
+			text
+		);
+		if (hash) this._cache!.set(outputPath, { hash });
+	}
+
+	async copyFileAsync(input: string, outputPath: string) {
+		let hash =
+			this._cache && fs.existsSync(input)
+				? BuildCache.hash(await fs.promises.readFile(input))
+				: undefined;
+		if (hash && (await this._isUnchangedAsync(outputPath, hash, input))) {
+			return;
+		}
+		await this._files.copyFileAsync(
+			input,
+			path.join(this.destPath, outputPath)
+		);
+		if (hash) this._cache!.set(outputPath, { hash, input });
+	}
+
+	async cleanAsync() {
+		let removed: string[] = [];
+		if (!this._cache) return removed;
+		await this._cache.loadAsync();
+		for (let outputPath of this._cache.getOutputPaths()) {
+			if (this._written.has(outputPath)) continue;
+			this._cache.delete(outputPath);
+			let fileName = path.join(this.destPath, outputPath);
+			if (!fs.existsSync(fileName)) continue;
+			await fs.promises.unlink(fileName);
+			removed.push(outputPath);
+
+			// remove empty parent directories as well
+			let dirName = path.dirname(fileName);
+			while (path.relative(this.destPath, dirName).match(/^(?!\.\.)./)) {
+				try {
+					await fs.promises.rmdir(dirName);
+				} catch {
+					break;
+				}
+				dirName = path.dirname(dirName);
+			}
+		}
+		return removed;
+	}
+
+	async flushAsync() {
+		await this._cache?.saveAsync();
+
+		// start over, so that changed assets are copied again on rebuild
+		this._files = new FileCache();
+		this._written.clear();
+	}
+
+	/** Returns true if the cache contains given hash for given output path, and the output file still exists */
+	private async _isUnchangedAsync(
+		outputPath: string,
+		hash: string,
+		input?: string
+	) {
+		await this._cache!.loadAsync();
+		let key = normalizeOutputPath(outputPath);
+		this._written.add(key);
+		let entry = this._cache!.get(outputPath);
+		return (
+			entry?.hash === hash &&
+			entry.input === input &&
+			fs.existsSync(path.join(this.destPath, outputPath))
+		);
+	}
+
+	private _files = new FileCache();
+	private _cache?: BuildCache;
+	private _written = new Set<string>();
+}
+
+/**
+ * An output sink that keeps all output in memory, e.g. for testing or listing output without writing to disk
+ */
+export class MemorySink implements OutputSink {
+	/** All output files, by (normalized) output path */
+	readonly files = new Map<string, string>();
+
+	/** All asset input paths, by (normalized) output path */
+	readonly assets = new Map<string, string>();
+
+	async writeTextFileAsync(outputPath: string, text: string) {
+		this.files.set(path.normalize(outputPath), text);
+	}
+
+	async copyFileAsync(input: string, outputPath: string) {
+		this.assets.set(path.normalize(outputPath), input);
+	}
+}
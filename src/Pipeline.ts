@@ -1,36 +1,275 @@
 import * as path from "path";
+import { AsyncLocalStorage } from "async_hooks";
 import {
+	CommentTagError,
 	ParserOptions,
 	parseMarkdownAsync,
+	parseCommentTagProps,
+	extractMarkdownSection,
+	shiftMarkdownHeadings,
 	splitMarkdown,
 	parseHtmlAttrTags as replaceHtmlAttrTags,
+	renderTableOfContents,
+	replaceCommentTagsAsync,
+	slugify,
+	splitCommentTagBlock,
 } from "./markdown";
 import { FileCache } from "./FileCache";
-import { PipelineAsset, PipelineItem } from "./PipelineItem";
+import {
+	FeedOptions,
+	renderFeed,
+	renderSitemap,
+	SitemapOptions,
+} from "./feeds";
+import { renderSearchIndex, SearchIndexOptions } from "./search";
+import { groupItems, PipelineQuery, runQuery } from "./query";
+import { getDataPath, parseDataFile } from "./data";
+import { PipelineSchema, validateData } from "./schema";
+import {
+	extractSnippet,
+	getSnippetLanguage,
+	renderCodeBlock,
+} from "./snippets";
+import {
+	PipelineAsset,
+	PipelineDiagnostic,
+	PipelineHeading,
+	PipelineItem,
+	PipelineStage,
+} from "./PipelineItem";
 import { decode, encode } from "html-entities";
 
 let _nextAnonId = 1;
 let _nextImportId = 1;
 
+/** Names of built-in source tags that are replaced before all other source tags, without replacing nested tags first */
+const _dataTagNames = ["if", "each"];
+
+/** Async context that keeps track of the item that's currently being transformed, to record file dependencies */
+const _currentItem = new AsyncLocalStorage<PipelineItem>();
+
+/** Information that's used to (re)start transforming an item added using `addSource` */
+interface ItemSource {
+	text: string;
+	itemData: any;
+	assets: PipelineAsset[];
+	init?: (item: PipelineItem) => void | Promise<void>;
+	fileName?: string;
+	promise?: Promise<void>;
+	resolveStageP?: Promise<void>;
+	done?: boolean;
+	importChain?: string[];
+	imports?: PipelineItem[];
+}
+
+/** Information that's used to (re)generate list pages added using `addPages` */
+interface PageSet {
+	pipeline: Pipeline;
+	id: string;
+	options: PipelinePagesOptions;
+	items: PipelineItem[];
+	pages: PipelineItem[];
+}
+
 /** Type definition for a pipeline transform function */
 export type PipelineTransform = (item: PipelineItem) => void | Promise<void>;
 
+/** Type definition for a comment tag handler function, which returns replacement text for a tag (e.g. `<!--{{tag attr="value"}}-->`) given its attributes (e.g. `{ attr: "value" }`), and the enclosed text for block tags (e.g. `<!--{{tag}}-->...<!--{{/tag}}-->`) */
+export type PipelineTagHandler = (
+	props: any,
+	item: PipelineItem,
+	content?: string
+) => string | Promise<string>;
+
+/** Type definition for the name of a stage that runs transform functions (i.e. all stages except `parse`) */
+export type PipelineTransformStage = Exclude<PipelineStage, "parse">;
+
+/**
+ * Options for adding a transform function, using `Pipeline.addSourceTransform()` and related methods
+ */
+export interface PipelineTransformOptions {
+	/** A unique name for the transform function, which can be used to remove or replace it, or to add other transform functions before or after it */
+	name?: string;
+
+	/** The name of a transform function (in the same stage) that this function should run before; it must have been added already */
+	before?: string;
+
+	/** The name of a transform function (in the same stage) that this function should run after; it must have been added already */
+	after?: string;
+}
+
+/**
+ * An object that represents a transform function in a pipeline stage, returned by `Pipeline.getTransforms()`
+ */
+export interface PipelineTransformEntry {
+	/** The name of the transform function, if any; the built-in transform functions are named `builtin-resolve` and `builtin-output-resolve` */
+	readonly name?: string;
+
+	/** The transform function itself */
+	readonly transform: PipelineTransform;
+}
+
+/**
+ * An object that defines a template (layout), which is used to wrap the HTML output of items that refer to it using the `template` data property
+ */
+export interface PipelineTemplate {
+	/** The template file name (HTML), relative to the path of the pipeline that the template is added to */
+	file?: string;
+
+	/** The template text (HTML), if no file name is specified */
+	text?: string;
+
+	/** The name of another template that this template extends, i.e. that the output of this template is inserted into */
+	extends?: string;
+
+	/** A list of assets that are used by this template, either as strings (relative to the pipeline path) or objects with input/output properties (relative to the *root* pipeline path); assets are added only once, when the template is first used */
+	assets?: Array<string | PipelineAsset>;
+}
+
+/**
+ * An object that represents a plugin, which can be used with `Pipeline.use()` to add transform functions, comment tag handlers, templates, and lifecycle hooks to a pipeline
+ */
+export interface PipelinePlugin<TOptions = any> {
+	/** The (unique) name of the plugin, also used as a prefix for the names of transform functions added by the plugin */
+	readonly name: string;
+
+	/** A function that's called when the plugin is used, which can add (named) transform functions and templates to the pipeline */
+	setup?(pipeline: Pipeline, options: TOptions): void;
+
+	/** Comment tag handlers for the source text, by tag name; see `Pipeline.addSourceTag()` */
+	sourceTags?: {
+		[tagName: string]: (
+			props: any,
+			item: PipelineItem,
+			options: TOptions,
+			content?: string
+		) => string | Promise<string>;
+	};
+
+	/** Comment tag handlers for the HTML output, by tag name; see `Pipeline.addOutputTag()` */
+	outputTags?: {
+		[tagName: string]: (
+			props: any,
+			item: PipelineItem,
+			options: TOptions,
+			content?: string
+		) => string | Promise<string>;
+	};
+
+	/** A lifecycle hook that's called when an item is added to the pipeline (or to a pipeline spawned from it afterwards) */
+	itemAdded?(item: PipelineItem, options: TOptions): void;
+
+	/** A lifecycle hook that's called when a pipeline is spawned from the pipeline (or from a pipeline spawned from it afterwards), before its init function runs */
+	pipelineSpawned?(
+		pipeline: Pipeline,
+		parent: Pipeline,
+		options: TOptions
+	): void;
+
+	/** A lifecycle hook that's called when all items of all related pipelines have been processed, see `Pipeline.onComplete()` */
+	complete?(pipeline: Pipeline, options: TOptions): void | Promise<void>;
+
+	/** A lifecycle hook that's called by `build()` and `rebuild()` before output files of given items are written */
+	beforeWrite?(items: PipelineItem[], options: TOptions): void | Promise<void>;
+
+	/** A lifecycle hook that's called by `build()` and `rebuild()` after output files of given items have been written */
+	afterWrite?(
+		items: PipelineItem[],
+		files: string[],
+		options: TOptions
+	): void | Promise<void>;
+}
+
+/**
+ * An object that describes a page of items, generated by `Pipeline.addPages()` and available as the `page` data property
+ */
+export interface PipelinePage {
+	/** The page number, starting at 1 */
+	number: number;
+
+	/** The total number of pages (in this group, if any) */
+	count: number;
+
+	/** The group (data property value), if pages are grouped */
+	group?: string;
+
+	/** A (relative) link to the previous page, if any, e.g. `index-2.md`; links are converted to output URLs in the output resolve stage */
+	prev?: string;
+
+	/** A (relative) link to the next page, if any */
+	next?: string;
+}
+
+/**
+ * Options for generating (paginated) list pages using `Pipeline.addPages()`
+ */
+export interface PipelinePagesOptions {
+	/** The query that selects items to be listed */
+	query: PipelineQuery;
+
+	/** A data property to group items by (e.g. `tags`), adding separate pages for each value */
+	groupBy?: string;
+
+	/** The maximum number of items on each page; by default, all items are listed on a single page */
+	pageSize?: number;
+
+	/** A function that returns markdown text (which may include front matter) for a single page */
+	render: (
+		items: PipelineItem[],
+		page: PipelinePage
+	) => string | Promise<string>;
+
+	/** Pipeline item data for all pages, front matter overrides these properties */
+	data?: any;
+}
+
 /**
  * A representation of a Markdown processing pipeline, which processes markdown files and assets using a set of transform functions.
  */
 export class Pipeline {
-	/** Create a main pipeline with builtin transforms, and start running asynchronously after promise from async init callback resolves */
+	/** Create a main pipeline with builtin transforms, and start running asynchronously after promise from async init callback resolves (or fail if it's rejected) */
 	static main(init: (pipeline: Pipeline) => Promise<void>) {
 		let pipeline = new Pipeline("", "");
 		pipeline.addResolveTransform(
-			pipeline._builtinResolveTransform.bind(pipeline)
+			pipeline._builtinResolveTransform.bind(pipeline),
+			{ name: "builtin-resolve" }
 		);
 		pipeline.addOutputResolveTransform(
-			pipeline._builtinOutputResolveTransform.bind(pipeline)
+			pipeline._builtinOutputResolveTransform.bind(pipeline),
+			{ name: "builtin-output-resolve" }
+		);
+		pipeline.addSourceTag("import", (props, item) =>
+			item.pipeline._importTagAsync(props, item)
 		);
+		pipeline.addSourceTag("insert", (props, item) =>
+			item.pipeline._insertTagAsync(props, item, [item.data])
+		);
+		pipeline.addSourceTag("code", (props, item) =>
+			item.pipeline._codeTagAsync(props, item)
+		);
+		pipeline.addSourceTag("if", (props, item, content) =>
+			item.pipeline._ifTagAsync(props, item, content, [item.data])
+		);
+		pipeline.addSourceTag("each", (props, item, content) =>
+			item.pipeline._eachTagAsync(props, item, content, [item.data])
+		);
+		pipeline.addOutputTag("html-import", (props, item) =>
+			item.pipeline.readTextFileAsync(item.pipeline._relPath(item, props.src))
+		);
+		pipeline.addOutputTag("html-insert", async (props, item) => {
+			let value = await item.pipeline._insertTagAsync(props, item, [item.data]);
+			return props.raw ? value : pipeline.escapeHtml(value);
+		});
+		pipeline.addOutputTag("toc", (props, item) =>
+			renderTableOfContents(item.headings, +props.min || 2, +props.max || 3)
+		);
+		pipeline._trackAdding(pipeline._startP);
 		Promise.resolve(pipeline)
 			.then(init)
-			.then(() => pipeline._resolveStart());
+			.then(
+				() => pipeline._resolveStart(),
+				(err) => pipeline._rejectStart(err)
+			);
 		return pipeline;
 	}
 
@@ -38,9 +277,11 @@ export class Pipeline {
 	 * Creates a new pipeline.
 	 * @note Do NOT use this constructor directly, use `spawn()` instead.
 	 */
-	constructor(inputPath: string, outputPath: string) {
+	constructor(inputPath: string, outputPath: string, parent?: Pipeline) {
 		this.path = inputPath;
 		this.outputPath = outputPath;
+		this.data = parent ? Object.create(parent.data) : {};
+		this._parent = parent;
 		this._files = new FileCache();
 	}
 
@@ -50,11 +291,43 @@ export class Pipeline {
 	/** The output path, relative to the destination base directory */
 	readonly outputPath: string;
 
+	/** Pipeline data (e.g. site-wide settings), loaded from data files using `addDataFiles()` or set directly; spawned pipelines inherit all properties of their parent pipeline data, and can add or override properties themselves */
+	readonly data: any;
+
 	/** Set parser options that are used when converting markdown to HTML */
 	setParserOptions(options: ParserOptions) {
 		this._parserOptions = options;
 	}
 
+	/**
+	 * Sets the front matter schema for this pipeline (and all pipelines spawned from this pipeline afterwards). The data of each item is validated when the item is added (or updated): default values are added, values of the wrong type are removed, and unknown fields, wrong types, and missing required fields are reported as item warnings or errors.
+	 * @param schema The schema, or undefined to disable validation
+	 */
+	setSchema(schema?: PipelineSchema) {
+		this._schema = schema;
+	}
+
+	/** Returns the front matter schema for this pipeline, if any */
+	getSchema() {
+		return this._schema;
+	}
+
+	/**
+	 * Enables or disables error isolation for all related pipelines: if enabled, errors thrown by transform functions are recorded as item errors (with the stage and transform function name) instead of failing the entire pipeline, and the item is marked as failed without any output.
+	 * @param isolate True if errors should be isolated to each item
+	 */
+	setErrorIsolation(isolate: boolean) {
+		this._root._isolateErrors = isolate;
+	}
+
+	/**
+	 * Sets the stall timeout for all related pipelines: if no transform function finishes within this time while waiting for the pipeline to complete, waiting fails with an error that lists all unfinished items with their current stage and transform function (e.g. because of a deadlock).
+	 * @param ms The timeout in milliseconds (defaults to 60 seconds); 0 to wait indefinitely
+	 */
+	setStallTimeout(ms: number) {
+		this._root._stallTimeout = ms;
+	}
+
 	/**
 	 * Returns a list of all items that have been added to this pipeline **only**.
 	 */
@@ -82,10 +355,11 @@ export class Pipeline {
 	/**
 	 * Parses given markdown text and returns a promise for the corresponding HTML.
 	 * @param markdown The markdown text; either as an array of strings, one for each line; or as a single string for inline markdown
+	 * @param headings An array to which all headings are added, including their (explicit or automatic) IDs
 	 * @returns A promise for the HTML output string
 	 */
-	async parseAsync(markdown: string | string[]) {
-		return await parseMarkdownAsync(markdown, this._parserOptions);
+	async parseAsync(markdown: string | string[], headings?: PipelineHeading[]) {
+		return await parseMarkdownAsync(markdown, this._parserOptions, headings);
 	}
 
 	/** A helper method that returns HTML-escaped text. */
@@ -103,49 +377,185 @@ export class Pipeline {
 	 * @param fileName The path of the file to read, relative to the current pipeline path
 	 */
 	async readTextFileAsync(fileName: string) {
-		return this._files.readTextFileAsync(path.resolve(this.path, fileName));
+		let filePath = path.resolve(this.path, fileName);
+		_currentItem.getStore()?.dependencies.add(filePath);
+		return this._files.readTextFileAsync(filePath);
+	}
+
+	/**
+	 * Adds a template (layout) to this pipeline (and all pipelines spawned from this pipeline afterwards). Templates are applied at the start of the output resolve stage, to items that refer to the template by name using the `template` data property. The template output replaces the `<!--{{template-content}}-->` tag, and other tags such as `html-insert` are replaced afterwards.
+	 * @param name The template name
+	 * @param template The template definition, including a file name or text
+	 * @returns The pipeline itself
+	 */
+	addTemplate(name: string, template: PipelineTemplate) {
+		if (!template.file && template.text == null) {
+			throw Error("Template must have a file or text: " + name);
+		}
+		this._templates.set(name, { ...template, pipeline: this });
+		return this;
 	}
 
 	/**
 	 * Adds a source-stage transform function to this pipeline (and all pipelines spawned from this pipeline afterwards).
 	 * @param transform The transform function to add
+	 * @param options Transform options, including a name and position, if any
 	 * @returns The pipeline itself
 	 */
-	addSourceTransform(transform: PipelineTransform) {
-		this._sourceTransforms.push(transform);
-		return this;
+	addSourceTransform(
+		transform: PipelineTransform,
+		options?: PipelineTransformOptions
+	) {
+		return this._addTransform("source", transform, options);
 	}
 
 	/**
 	 * Adds a resolve-stage transform function to this pipeline (and all pipelines spawned from this pipeline afterwards).
 	 * @param transform The transform function to add
+	 * @param options Transform options, including a name and position, if any
 	 * @returns The pipeline itself
 	 */
-	addResolveTransform(transform: PipelineTransform) {
-		this._resolveTransforms.push(transform);
-		return this;
+	addResolveTransform(
+		transform: PipelineTransform,
+		options?: PipelineTransformOptions
+	) {
+		return this._addTransform("resolve", transform, options);
 	}
 
 	/**
 	 * Adds an output-stage transform function to this pipeline (and all pipelines spawned from this pipeline afterwards).
 	 * @param transform The transform function to add
+	 * @param options Transform options, including a name and position, if any
 	 * @returns The pipeline itself
 	 */
-	addOutputTransform(transform: PipelineTransform) {
-		this._outputTransforms.push(transform);
-		return this;
+	addOutputTransform(
+		transform: PipelineTransform,
+		options?: PipelineTransformOptions
+	) {
+		return this._addTransform("output", transform, options);
 	}
 
 	/**
 	 * Adds an output resolve-stage transform function to this pipeline (and all pipelines spawned from this pipeline afterwards).
 	 * @param transform The transform function to add
+	 * @param options Transform options, including a name and position, if any
 	 * @returns The pipeline itself
 	 */
-	addOutputResolveTransform(transform: PipelineTransform) {
-		this._outputResolveTransforms.push(transform);
+	addOutputResolveTransform(
+		transform: PipelineTransform,
+		options?: PipelineTransformOptions
+	) {
+		return this._addTransform("output-resolve", transform, options);
+	}
+
+	/**
+	 * Uses given plugin for this pipeline and all pipelines spawned from this pipeline afterwards: runs its setup function, adds its comment tag handlers, and registers its lifecycle hooks.
+	 * @param plugin The plugin object
+	 * @param options Plugin options, passed to the setup function and all hooks
+	 * @returns The pipeline itself
+	 */
+	use<TOptions>(plugin: PipelinePlugin<TOptions>, options?: TOptions) {
+		if (this._plugins.some((p) => p.plugin.name === plugin.name)) {
+			throw Error("Plugin already used: " + plugin.name);
+		}
+		let opts = (options ?? {}) as TOptions;
+		this._plugins.push({ plugin, options: opts });
+		if (!this._root._usedPlugins.some((p) => p.plugin === plugin)) {
+			this._root._usedPlugins.push({ plugin, options: opts });
+		}
+		plugin.setup?.(this, opts);
+
+		// register tag handlers, with plugin options
+		for (let tagName in plugin.sourceTags) {
+			let handler = plugin.sourceTags[tagName]!;
+			this.addSourceTag(tagName, (props, item, content) =>
+				handler(props, item, opts, content)
+			);
+		}
+		for (let tagName in plugin.outputTags) {
+			let handler = plugin.outputTags[tagName]!;
+			this.addOutputTag(tagName, (props, item, content) =>
+				handler(props, item, opts, content)
+			);
+		}
+		if (plugin.complete) {
+			this.onComplete((pipeline) => plugin.complete!(pipeline, opts));
+		}
 		return this;
 	}
 
+	/**
+	 * Returns a list of all plugins that have been used with any of the related pipelines, along with their options, in order.
+	 */
+	getPlugins() {
+		return this._root._usedPlugins.slice();
+	}
+
+	/**
+	 * Registers a handler for comment tags in the source text of all items in this pipeline (and all pipelines spawned from this pipeline afterwards), e.g. `<!--{{tag attr="value"}}-->`. Tags are replaced automatically during the resolve stage, by the `builtin-resolve` transform function. Handlers for built-in tags (`import`, `insert`, `code`, `if`, and `each`) can be replaced; `if` and `each` tags are replaced first, and their handlers receive the enclosed text without replacing nested tags.
+	 * @param name The tag name
+	 * @param handler A function that's called with all attributes of the tag (as an object) and the item itself, and returns replacement (markdown) text or a promise for the replacement text
+	 * @returns The pipeline itself
+	 */
+	addSourceTag(name: string, handler: PipelineTagHandler) {
+		this._sourceTags.set(name, handler);
+		return this;
+	}
+
+	/**
+	 * Registers a handler for comment tags in the HTML output of all items in this pipeline (and all pipelines spawned from this pipeline afterwards). Tags are replaced automatically during the output resolve stage, by the `builtin-output-resolve` transform function, after applying templates. Handlers for built-in tags (`html-import`, `html-insert`, and `toc`) can be replaced.
+	 * @param name The tag name
+	 * @param handler A function that's called with all attributes of the tag (as an object) and the item itself, and returns replacement HTML text or a promise for the replacement text
+	 * @returns The pipeline itself
+	 */
+	addOutputTag(name: string, handler: PipelineTagHandler) {
+		this._outputTags.set(name, handler);
+		return this;
+	}
+
+	/**
+	 * Removes the handler(s) for given comment tag from this pipeline, for both the source text and HTML output; removed tags are no longer replaced, and result in a warning if they're included in the output.
+	 * @param name The tag name
+	 * @returns The pipeline itself
+	 */
+	removeTag(name: string) {
+		this._sourceTags.delete(name);
+		this._outputTags.delete(name);
+		return this;
+	}
+
+	/**
+	 * Removes a named transform function from this pipeline (e.g. a transform function that was inherited from a parent pipeline, or a built-in transform function), for any stage.
+	 * @param name The name of the transform function
+	 * @returns The pipeline itself
+	 */
+	removeTransform(name: string) {
+		let [list, idx] = this._findTransform(name);
+		list.splice(idx, 1);
+		return this;
+	}
+
+	/**
+	 * Replaces a named transform function in this pipeline with another function, in the same stage and position.
+	 * @param name The name of the transform function
+	 * @param transform The new transform function
+	 * @returns The pipeline itself
+	 */
+	replaceTransform(name: string, transform: PipelineTransform) {
+		let [list, idx] = this._findTransform(name);
+		list[idx] = { name, transform };
+		return this;
+	}
+
+	/**
+	 * Returns the list of transform functions that are run for all items in this pipeline during given stage, in order, including built-in transform functions.
+	 * @param stage The transform stage
+	 * @returns A list of objects with `name` (if any) and `transform` properties
+	 */
+	getTransforms(stage: PipelineTransformStage): PipelineTransformEntry[] {
+		return this._transforms[stage].slice();
+	}
+
 	/**
 	 * Reads one or more markdown files and adds them to this pipeline (asynchronously)
 	 *
@@ -155,7 +565,7 @@ export class Pipeline {
 	 * - `output` -- The output file name (relative to the current pipeline output path), including extension; if not set before the output stage, the output path is based on the original item path, with HTML extension
 	 * - `inactive` -- If true, no further transform functions will be run and output/assets will not be saved
 	 * - `partial` -- If true, source will be transformed and assets will be copied but HTML output will not be generated
-	 * - `warnings` -- A list of warnings (strings) that will be shown after the pipeline has finished
+	 * - `warnings` -- A list of warnings (strings) that will be shown after the pipeline has finished; use `PipelineItem.warn()` from transform functions instead
 	 * @param fileNames One or more file names, relative to the pipeline path
 	 * @returns The pipeline itself
 	 */
@@ -167,12 +577,15 @@ export class Pipeline {
 			// if not added yet, read file and add item
 			let id = path.join(this.path, fileName);
 			if (this._allItems.has(id)) continue;
-			this._promises.push(
-				(async () => {
-					let text = await this._files.readTextFileAsync(filePath);
-					this.addSource(fileName, text);
-				})()
-			);
+			let name = fileName;
+			let promise = (async () => {
+				let text = await this._files.readTextFileAsync(filePath);
+				let item = this.addSource(name, text);
+				this._sources.get(item)!.fileName = filePath;
+				item.dependencies.add(filePath);
+			})();
+			this._trackAdding(promise);
+			this._promises.push(promise);
 		}
 		return this;
 	}
@@ -197,11 +610,41 @@ export class Pipeline {
 					: a
 			)
 		);
-		this._items.push(item);
-		this._allItems.set(item.path, item);
+		this._addItem(item);
 		return this;
 	}
 
+	/**
+	 * Loads one or more data files (YAML, JSON, or CSV) asynchronously, and adds their content to the pipeline data object, using the file name without extension as the property name (e.g. `authors` for `data/authors.yml`). CSV files are loaded as arrays of objects, using the first line as property names.
+	 * @note Items that use pipeline data in `insert`, `html-insert`, `if`, or `each` tags depend on the data file, and are updated when it changes.
+	 * @param fileNames One or more file names, relative to the pipeline path
+	 * @returns The pipeline itself
+	 */
+	addDataFiles(...fileNames: string[]) {
+		for (let fileName of fileNames) {
+			let filePath = path.resolve(this.path, fileName);
+			let key = path.basename(fileName, path.extname(fileName));
+			let promise = this._loadDataFileAsync(key, filePath);
+			this._root._dataFiles.push({ pipeline: this, key, filePath, promise });
+			this._promises.push(promise);
+		}
+		return this;
+	}
+
+	/**
+	 * Returns the pipeline data object, after all data files (of this pipeline and all related pipelines) have been loaded.
+	 * @note If called from a transform function, all data files are added as dependencies of the current item.
+	 * @returns A promise for the data object, see `data`
+	 */
+	async getDataAsync() {
+		let item = _currentItem.getStore();
+		for (let dataFile of this._root._dataFiles) {
+			item?.dependencies.add(dataFile.filePath);
+		}
+		await this._waitDataAsync();
+		return this.data;
+	}
+
 	/**
 	 * Adds given markdown text to the pipeline, from memory instead of a file.
 	 *
@@ -225,31 +668,10 @@ export class Pipeline {
 			throw Error("Item already exists in pipeline: " + itemPath);
 		}
 
-		// split markdown and YAML front matter
-		// note that most data properties are handled elsewhere
-		let { data, markdown, warnings } = splitMarkdown(text);
-		if (warnings?.length) data.warnings = warnings;
-		data = { ...itemData, ...data };
-
-		// add pipeline item
-		let item: PipelineItem;
-		let promise = (async () => {
-			await this._startP;
-			if (init) await init(item!);
-			await this._transform(item!);
-		})();
-		item = new PipelineItem(this, itemPath, markdown, data, assets, promise);
-		this._items.push(item);
-		this._allItems.set(item.path, item);
-		this._promises.push(promise);
-
-		// handle 'require' property as a list of markdown files
-		if (data.require) {
-			let files: string[] = Array.isArray(data.require)
-				? data.require
-				: [data.require];
-			this.addFiles(...files.map((s) => this._relPath(item, s)));
-		}
+		// add pipeline item and start transforming
+		let item = new PipelineItem(this, itemPath);
+		this._sources.set(item, { text, itemData, assets, init });
+		this._addItem(item, () => this._startItem(item));
 		return item;
 	}
 
@@ -267,11 +689,167 @@ export class Pipeline {
 			data
 		);
 		item.output = { path: path.join(this.outputPath, filePath), text };
-		this._items.push(item);
-		this._allItems.set(item.path, item);
+		this._addItem(item);
+		return item;
+	}
+
+	/**
+	 * Adds a sitemap (XML) output file, which includes all HTML output of all related pipelines. The sitemap is generated after all items have been processed, excluding inactive and partial items.
+	 * @param filePath The output file name or path, relative to the current output path
+	 * @param options Sitemap options, including the base URL of the site
+	 * @returns The newly added pipeline item
+	 */
+	addSitemap(filePath: string, options: SitemapOptions) {
+		let item = this.addOutputFile(filePath, "");
+		this.onComplete(() => {
+			item.output = {
+				...item.output!,
+				text: renderSitemap(this.getAllItems(), options),
+			};
+		});
+		return item;
+	}
+
+	/**
+	 * Adds an Atom or RSS feed (XML) output file, which includes selected items with HTML output from all related pipelines, sorted by date. The feed is generated after all items have been processed, excluding inactive and partial items. Items are described using their `title`, `date`, and `description` data properties.
+	 * @param filePath The output file name or path, relative to the current output path
+	 * @param options Feed options, including the base URL of the site, the feed title, and a function to select items
+	 * @returns The newly added pipeline item
+	 */
+	addFeed(filePath: string, options: FeedOptions) {
+		let item = this.addOutputFile(filePath, "");
+		this.onComplete(() => {
+			item.output = {
+				...item.output!,
+				text: renderFeed(this.getAllItems(), options),
+			};
+		});
 		return item;
 	}
 
+	/**
+	 * Adds a search index (JSON) output file, which includes the text of all HTML output of all related pipelines, split into sections by heading. The search index is generated after all items have been processed, excluding inactive and partial items, and items with a `search` data property that's set to false.
+	 * @param filePath The output file name or path, relative to the current output path
+	 * @param options Search index options
+	 * @returns The newly added pipeline item
+	 */
+	addSearchIndex(filePath: string, options?: SearchIndexOptions) {
+		let item = this.addOutputFile(filePath, "");
+		this.onComplete(() => {
+			item.output = {
+				...item.output!,
+				text: JSON.stringify(renderSearchIndex(this.getAllItems(), options)),
+			};
+		});
+		return item;
+	}
+
+	/**
+	 * Returns a promise for a list of items from any of the related pipelines (including parents, siblings, and spawned pipelines) that match given query. Only items that have been added as markdown text are included, excluding inactive and partial items.
+	 * @note The promise is resolved only after _all_ items have reached the resolve stage (or were skipped), including items that are still being added. Do NOT await this method from a source stage transform function, since that would never resolve.
+	 * @param query The query, which may include a path pattern, data properties or filter function, and sort order
+	 * @returns A promise for the list of matching items
+	 */
+	async queryAsync(query: PipelineQuery = {}) {
+		await this._waitResolveStageAsync();
+		let items = this.getAllItems().filter(
+			(item) =>
+				item.pipeline._sources.has(item) &&
+				!item.failed &&
+				!item.data.inactive &&
+				!item.data.partial
+		);
+		return runQuery(items, query);
+	}
+
+	/**
+	 * Returns a promise for a map of items that match given query (see `queryAsync()`), grouped by the value(s) of given data property, e.g. `tags` or `category`.
+	 * @param field The data property to group by; items with array values are added to each group
+	 * @param query The query that selects items to be grouped
+	 * @returns A promise for a map of item lists, by (string) value
+	 */
+	async groupAsync(field: string, query: PipelineQuery = {}) {
+		return groupItems(await this.queryAsync(query), field);
+	}
+
+	/**
+	 * Adds (paginated) list pages for items that match given query, optionally grouped by a data property (e.g. a page for each tag). Pages are added as markdown text after all items have reached the resolve stage, with the `page` data property set to a {@link PipelinePage} object. Pages are replaced by `rebuildAsync()` if any listed (or newly matching) items are updated.
+	 * @note The first page uses given ID (or `id/group`), next pages add a number to the ID, e.g. `blog/index-2`. Group values are converted to lowercase IDs, adding a number if the same ID is used for another group (e.g. `tags/c-1`).
+	 * @param id The 'path' of the first page, relative to the current pipeline input path
+	 * @param options Options, including the query, page size, and a function that returns markdown text for each page
+	 * @returns The pipeline itself
+	 */
+	addPages(id: string, options: PipelinePagesOptions) {
+		let pageSet: PageSet = {
+			pipeline: this,
+			id,
+			options,
+			items: [],
+			pages: [],
+		};
+		this._root._pageSets.push(pageSet);
+		this._promises.push(
+			(async () => {
+				await this._startP;
+				await this._addPagesAsync(pageSet);
+			})()
+		);
+		return this;
+	}
+
+	/**
+	 * Returns a list of all warnings and errors for given items (or all active items of all related pipelines), including warnings added using `PipelineItem.warn()`, the `warnings` data property, and comment tags that are still present in the output (i.e. unknown tags).
+	 * @param items The items to include, defaults to all items
+	 * @returns A list of diagnostics, in order of items
+	 */
+	report(items = this.getAllItems()) {
+		let result: PipelineDiagnostic[] = [];
+		for (let item of items) {
+			if (item.data.inactive && !item.failed) continue;
+			let fileName = item.pipeline._sources.get(item)?.fileName;
+			if (fileName) fileName = path.relative(".", fileName);
+			const add = (d: PipelineDiagnostic) => result.push({ ...d, fileName });
+			item.diagnostics.forEach(add);
+
+			// add warnings from data, if any
+			if (Array.isArray(item.data.warnings)) {
+				for (let warning of item.data.warnings) {
+					add({
+						severity: "warning",
+						message: String(warning),
+						path: item.path,
+					});
+				}
+			}
+
+			// check if any comment tags are still present in the HTML output
+			if (item.output) {
+				let re = /\<\!--\{\{\s*[^\>\s]+[^\>]*\}\}--\>/g;
+				let tagMatch: RegExpMatchArray | null;
+				while ((tagMatch = re.exec(item.output.text))) {
+					add({
+						severity: "warning",
+						message: "Unknown comment tag " + tagMatch[0],
+						path: item.path,
+						stage: "output-resolve",
+						line: item.pipeline._getSourceLine(item, tagMatch[0]),
+					});
+				}
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Adds a function that's called when all items of all related pipelines have been processed, i.e. when the _root_ pipeline completes, and again after each rebuild. The function may update the output of existing items, or add new items.
+	 * @param handler The function to add
+	 * @returns The pipeline itself
+	 */
+	onComplete(handler: (pipeline: Pipeline) => void | Promise<void>) {
+		this._completeHandlers.push(handler);
+		return this;
+	}
+
 	/**
 	 * Creates a new pipeline, optionally using new path(s). The spawned pipeline inherits all current transforms, but not those that are added *after* calling this method.
 	 * @param relativePath Input path, relative to the current pipeline path; if omitted, the new path will be the same as the current path
@@ -290,83 +868,684 @@ export class Pipeline {
 		outputPath = path.join(this.outputPath, outputPath || relativePath || ".");
 
 		// create new pipeline with given paths
-		let result = new Pipeline(targetPath, outputPath);
+		let result = new Pipeline(targetPath, outputPath, this);
 		Object.assign(result._parserOptions, this._parserOptions);
-		result._sourceTransforms.push(...this._sourceTransforms);
-		result._resolveTransforms.push(...this._resolveTransforms);
-		result._outputTransforms.push(...this._outputTransforms);
-		result._outputResolveTransforms.push(...this._outputResolveTransforms);
+		result._schema = this._schema;
+		for (let stage in this._transforms) {
+			let s = stage as PipelineTransformStage;
+			result._transforms[s].push(...this._transforms[s]);
+		}
 		result._allItems = this._allItems;
 		result._files = this._files;
+		result._root = this._root;
+		result._completeHandlers = this._completeHandlers;
+		result._templates = new Map(this._templates);
+		result._sourceTags = new Map(this._sourceTags);
+		result._outputTags = new Map(this._outputTags);
+		result._adding = this._adding;
+		result._plugins = this._plugins.slice();
+		for (let { plugin, options } of this._plugins) {
+			plugin.pipelineSpawned?.(result, this, options);
+		}
 
-		// wait for pipeline to complete
+		// start pipeline after init, and wait for pipeline to complete
+		let started = (async () => {
+			await this._startP;
+			if (init) await init(result);
+			result._resolveStart();
+		})();
+		this._trackAdding(started);
 		this._promises.push(
 			(async () => {
-				await this._startP;
-				if (init) await init(result);
-				result._resolveStart();
+				await started;
 				await result.waitAsync();
 			})()
 		);
 		return result;
 	}
 
+	/**
+	 * Invalidates given files, and runs all transform functions again for items that depend on them (from any of the related pipelines). Source files are read again, and the item's source, data, output, and assets are reset to their initial state first.
+	 * @note Transform functions that have been added to the pipeline are _not_ updated; changes to pipeline modules require a new pipeline.
+	 * @param fileNames The paths of all files that have changed, relative to the current environment directory
+	 * @returns A promise for a list of items that have been updated, including new items that have been added as a result
+	 */
+	async rebuildAsync(...fileNames: string[]) {
+		let changed = new Set(fileNames.map((f) => path.resolve(f)));
+		for (let fileName of changed) this._files.invalidate(fileName);
+		for (let dataFile of this._root._dataFiles) {
+			if (!changed.has(dataFile.filePath)) continue;
+			let { pipeline, key, filePath } = dataFile;
+			await (dataFile.promise = pipeline._loadDataFileAsync(key, filePath));
+		}
+		let before = new Set(this._allItems.values());
+		let result = new Set(
+			this.getAllItems().filter((item) =>
+				item.getDependencies().some((f) => changed.has(f))
+			)
+		);
+		await Promise.all(
+			Array.from(result).map((item) => item.pipeline._restartItemAsync(item))
+		);
+
+		// replace list pages that include (or included) any updated or new items
+		const isUpdated = (item: PipelineItem) =>
+			result.has(item) || !before.has(item);
+		await this._root._watchAsync(
+			Promise.all(
+				this._root._pageSets.map((pageSet) =>
+					pageSet.pipeline._addPagesAsync(pageSet, isUpdated)
+				)
+			)
+		);
+
+		// wait for all updated items, and any items added while transforming
+		let len = 0;
+		while (result.size > len) {
+			len = result.size;
+			await this._root._watchAsync(
+				Promise.all(Array.from(result).map((item) => item.waitAsync()))
+			);
+			for (let item of this._allItems.values()) {
+				if (!before.has(item)) result.add(item);
+			}
+		}
+
+		// run completion handlers again, and include updated output
+		let outputs = new Map(
+			this.getAllItems().map((item) => [item, item.output])
+		);
+		await this._root._watchAsync(this._root._completeAsync());
+		for (let item of this._allItems.values()) {
+			if (outputs.get(item) !== item.output) result.add(item);
+		}
+		return Array.from(result).filter(
+			(item) => this._allItems.get(item.path) === item
+		);
+	}
+
 	/** Returns a promise that is fulfilled when all pipeline items have been processed. The promise is rejected if an error occurs. */
 	async waitAsync() {
-		await this._startP;
+		try {
+			await this._startP;
+		} catch (err) {
+			// avoid unhandled rejections for items that will never start
+			for (let p of this._promises) p.catch(() => {});
+			throw err;
+		}
 		let len = 0;
 		while (this._promises.length > len) {
 			len = this._promises.length;
-			await Promise.all(this._promises);
+			let all = Promise.all(this._promises);
+			await (this._root === this ? this._watchAsync(all) : all);
 		}
+
+		// run completion handlers only once for the root pipeline
+		if (this._root === this) {
+			if (!this._completeP) this._completeP = this._completeAsync();
+			await this._watchAsync(this._completeP);
+		}
+	}
+
+	/** Runs all completion handlers, and waits for items that have been added by them */
+	private async _completeAsync() {
+		for (let handler of this._completeHandlers) await handler(this);
+		await Promise.all(this.getAllItems().map((item) => item.waitAsync()));
+	}
+
+	/** Returns a promise for the result of given promise, which is rejected if no transform function finishes within the stall timeout */
+	private _watchAsync<T>(promise: Promise<T>) {
+		let timeout = this._root._stallTimeout;
+		if (!(timeout > 0)) return promise;
+		this._root._lastProgress = Date.now();
+		return new Promise<T>((resolve, reject) => {
+			let timer = setInterval(() => {
+				if (Date.now() - this._root._lastProgress < timeout) return;
+				clearInterval(timer);
+				reject(this._getStallError(timeout));
+			}, Math.min(timeout, 1000));
+			promise.then(
+				(result) => {
+					clearInterval(timer);
+					resolve(result);
+				},
+				(err) => {
+					clearInterval(timer);
+					reject(err);
+				}
+			);
+		});
 	}
 
-	/** Runs all transform functions for given item */
-	private async _transform(item: PipelineItem) {
+	/** Returns an error that lists all unfinished items, with their current stage and transform function */
+	private _getStallError(timeout: number) {
+		let lines: string[] = [];
+		for (let item of this.getAllItems()) {
+			let source = item.pipeline._sources.get(item);
+			if (!source || source.done) continue;
+			let stage = item.stage ? item.stage + " stage" : "not started";
+			if (item.transform) stage += ", " + item.transform;
+			lines.push("  " + item.path + " (" + stage + ")");
+		}
+		return Error(
+			"Pipeline stalled, no progress for " +
+				timeout / 1000 +
+				"s (possible deadlock); unfinished items:\n" +
+				(lines.join("\n") ||
+					"  (none, waiting for pipeline or completion handler)")
+		);
+	}
+
+	/** Keeps track of given promise until it's settled, since it may add new items */
+	private _trackAdding(promise: Promise<unknown>) {
+		const done = () => {
+			this._adding.delete(promise);
+		};
+		this._adding.add(promise);
+		promise.then(done, done);
+	}
+
+	/** Returns a promise that's resolved when all items of all related pipelines have reached the resolve stage (or were skipped), and no more items are being added */
+	private async _waitResolveStageAsync() {
+		let count = -1;
+		for (;;) {
+			await Promise.all(this._adding);
+			let items = this.getAllItems();
+			await Promise.all(
+				items.map((item) => item.pipeline._sources.get(item)?.resolveStageP)
+			);
+			if (items.length === count && !this._adding.size) return;
+			count = items.length;
+		}
+	}
+
+	/** Reads markdown text and front matter for given item, and starts running transform functions asynchronously */
+	private _startItem(item: PipelineItem) {
+		let source = this._sources.get(item)!;
+
+		// remove partial items imported by a previous run, these are added again if still needed
+		for (let imported of source.imports || []) {
+			imported.pipeline._removeItem(imported);
+		}
+		source.imports = [];
+
+		// split markdown and YAML front matter
+		// note that most data properties are handled elsewhere
+		let { data, markdown, warnings } = splitMarkdown(source.text);
+		data = { ...source.itemData, ...data };
+		let issues = this._schema ? validateData(data, this._schema) : [];
+
+		// run transforms within the item context, to record dependencies
+		let init = source.init;
+		let reachedResolveStage!: () => void;
+		source.resolveStageP = new Promise((r) => (reachedResolveStage = r));
+		source.done = false;
+		let promise = (async () => {
+			try {
+				await this._startP;
+				await _currentItem.run(item, () =>
+					this._transform(item, reachedResolveStage, init)
+				);
+			} finally {
+				reachedResolveStage();
+				source.done = true;
+				this._root._lastProgress = Date.now();
+			}
+		})();
+		if (source.promise) {
+			let idx = this._promises.indexOf(source.promise);
+			if (idx >= 0) this._promises.splice(idx, 1);
+		}
+		source.promise = promise;
+		this._promises.push(promise);
+		promise.catch(() => {}); // handled by waitAsync
+		item.reset(markdown, data, source.assets, promise);
+		if (source.fileName) item.dependencies.add(source.fileName);
+		for (let warning of warnings) item.warn(warning.message, warning.line);
+		for (let issue of issues) {
+			let line = this._getFieldLine(item, issue.field);
+			if (this._schema!.severity === "error") item.error(issue.message, line);
+			else item.warn(issue.message, line);
+		}
+
+		// handle 'require' property as a list of markdown files
+		if (data.require) {
+			let files: string[] = Array.isArray(data.require)
+				? data.require
+				: [data.require];
+			for (let file of files) {
+				item.dependencies.add(path.resolve(path.dirname(item.path), file));
+			}
+			this.addFiles(...files.map((s) => this._relPath(item, s)));
+		}
+	}
+
+	/** Reads the source file for given item again if needed, and restarts transforming the item; does nothing for items that were not added as markdown text */
+	private async _restartItemAsync(item: PipelineItem) {
+		let source = this._sources.get(item);
+		if (!source) return;
+		if (source.fileName) {
+			source.text = await this._files.readTextFileAsync(source.fileName);
+		}
+		this._startItem(item);
+	}
+
+	/** Runs the init function (if any) and all transform functions for given item, calls given function after the source stage */
+	private async _transform(
+		item: PipelineItem,
+		onResolveStage: () => void,
+		init?: (item: PipelineItem) => void | Promise<void>
+	) {
 		let skip = false;
 		const parseAsync = async () => {
 			if (item.data.partial) skip = true;
 			else if (item.source.length) {
+				item.headings.splice(0, item.headings.length);
 				item.output = {
-					text: await this.parseAsync(item.source),
-					path: item.data.output
-						? path.join(this.outputPath, item.data.output)
-						: path.join(this.outputPath, path.relative(this.path, item.path)) +
-						  ".html",
+					text: await this.parseAsync(item.source, item.headings),
+					path: this._getOutputPath(item),
 				};
 			}
 		};
 
-		let funcs: PipelineTransform[] = [
-			...this._sourceTransforms,
-			...this._resolveTransforms,
-			parseAsync,
-			...this._outputTransforms,
-			...this._outputResolveTransforms,
+		let stages: Array<[PipelineStage, PipelineTransformEntry[]]> = [
+			["source", this._transforms.source],
+			["resolve", [{ transform: onResolveStage }, ...this._transforms.resolve]],
+			["parse", [{ transform: parseAsync }]],
+			["output", this._transforms.output],
+			["output-resolve", this._transforms["output-resolve"]],
 		];
-		for (let f of funcs) {
-			if (item.data.inactive || skip) return;
-			await f(item);
+		try {
+			if (init) {
+				item.stage = "source";
+				item.transform = "init";
+				await init(item);
+			}
+			for (let [stage, entries] of stages) {
+				item.stage = stage;
+				for (let { name, transform } of entries.slice()) {
+					if (item.data.inactive || skip) return;
+					item.transform =
+						name || transform.name.replace(/^bound /, "") || undefined;
+					await transform(item);
+					this._root._lastProgress = Date.now();
+				}
+			}
+		} catch (err) {
+			if (!this._root._isolateErrors) throw err;
+
+			// record error and remove all output for this item
+			item.diagnostics.push({
+				severity: "error",
+				message: err instanceof Error ? err.message : String(err),
+				path: item.path,
+				stage: item.stage,
+				transform: item.transform,
+			});
+			item.failed = true;
+			item.output = undefined;
+			item.assets.splice(0, item.assets.length);
+		} finally {
+			item.stage = undefined;
+			item.transform = undefined;
+		}
+	}
+
+	/** Adds given transform function to the list for given stage, at the position given by the `before` or `after` option */
+	private _addTransform(
+		stage: PipelineTransformStage,
+		transform: PipelineTransform,
+		options: PipelineTransformOptions = {}
+	) {
+		let list = this._transforms[stage];
+		let { name, before, after } = options;
+		if (name && list.some((entry) => entry.name === name)) {
+			throw Error("Duplicate transform name: " + name);
+		}
+		let idx = list.length;
+		let target = before ?? after;
+		if (target !== undefined) {
+			let targetIdx = list.findIndex((entry) => entry.name === target);
+			if (targetIdx < 0) {
+				throw Error("Unknown transform name in " + stage + " stage: " + target);
+			}
+			idx = before !== undefined ? targetIdx : targetIdx + 1;
+		}
+		list.splice(idx, 0, { name, transform });
+		return this;
+	}
+
+	/** Returns the list and index of the transform function with given name, or throws an error if not found */
+	private _findTransform(name: string): [PipelineTransformEntry[], number] {
+		let result = this._findTransformIndex(name);
+		if (!result) throw Error("Unknown transform name: " + name);
+		return result;
+	}
+
+	/** Returns the list and index of the transform function with given name, if any */
+	private _findTransformIndex(
+		name: string
+	): [PipelineTransformEntry[], number] | undefined {
+		for (let stage in this._transforms) {
+			let list = this._transforms[stage as PipelineTransformStage];
+			let idx = list.findIndex((entry) => entry.name === name);
+			if (idx >= 0) return [list, idx];
+		}
+	}
+
+	/** Adds given item to this pipeline, starts it using given function (if any), and calls the `itemAdded` hooks of all plugins */
+	private _addItem(item: PipelineItem, start?: () => void) {
+		this._items.push(item);
+		this._allItems.set(item.path, item);
+		start?.();
+		for (let { plugin, options } of this._plugins) {
+			plugin.itemAdded?.(item, options);
+		}
+	}
+
+	/** Adds list pages for given page set, removing pages that were added before; if a function is given, pages are only replaced if it returns true for any of the listed items */
+	private async _addPagesAsync(
+		pageSet: PageSet,
+		isUpdated?: (item: PipelineItem) => boolean
+	) {
+		let { id, options } = pageSet;
+		let pages = new Set<PipelineItem>();
+		for (let p of this._root._pageSets)
+			p.pages.forEach((page) => pages.add(page));
+		let items = (await this.queryAsync(options.query)).filter(
+			(item) => !pages.has(item)
+		);
+		if (isUpdated && !items.some(isUpdated) && !pageSet.items.some(isUpdated)) {
+			return;
+		}
+		for (let page of pageSet.pages) this._removeItem(page);
+		pageSet.items = items;
+		pageSet.pages = [];
+
+		let groups = options.groupBy
+			? groupItems(items, options.groupBy)
+			: new Map([["", items]]);
+		let usedIds = new Set<string>();
+		for (let [group, list] of groups) {
+			let size = options.pageSize || list.length || 1;
+			let count = Math.max(1, Math.ceil(list.length / size));
+			let base = options.groupBy ? path.join(id, slugify(group)) : id;
+			let groupId = base;
+			const pageId = (n: number) => (n > 1 ? groupId + "-" + n : groupId);
+			const link = (n: number) => path.basename(pageId(n)) + ".md";
+
+			// add a number to group IDs that are already used (e.g. `C++` and `C#`), like heading IDs
+			const isUsed = () => {
+				for (let n = 1; n <= count; n++)
+					if (usedIds.has(pageId(n))) return true;
+				return false;
+			};
+			for (let n = 1; isUsed(); n++) groupId = base + "-" + n;
+			for (let n = 1; n <= count; n++) usedIds.add(pageId(n));
+			for (let n = 1; n <= count; n++) {
+				let page: PipelinePage = {
+					number: n,
+					count,
+					group: options.groupBy ? group : undefined,
+					prev: n > 1 ? link(n - 1) : undefined,
+					next: n < count ? link(n + 1) : undefined,
+				};
+				let pageItems = list.slice((n - 1) * size, n * size);
+				let text = await options.render(pageItems, page);
+				pageSet.pages.push(
+					this.addSource(pageId(n), text, { ...options.data, page })
+				);
+			}
+		}
+	}
+
+	/** Removes given item from this pipeline, along with all partial items that it imported */
+	private _removeItem(item: PipelineItem) {
+		let source = this._sources.get(item);
+		if (source) {
+			for (let imported of source.imports || []) {
+				imported.pipeline._removeItem(imported);
+			}
+			let idx = source.promise ? this._promises.indexOf(source.promise) : -1;
+			if (idx >= 0) this._promises.splice(idx, 1);
+			this._sources.delete(item);
+		}
+		let idx = this._items.indexOf(item);
+		if (idx >= 0) this._items.splice(idx, 1);
+		if (this._allItems.get(item.path) === item) {
+			this._allItems.delete(item.path);
+		}
+	}
+
+	/** Returns an object with callbacks for all given tag handlers, for given item */
+	private _bindTags(tags: Map<string, PipelineTagHandler>, item: PipelineItem) {
+		let callbacks: {
+			[tagName: string]: (
+				props: any,
+				content?: string
+			) => string | Promise<string>;
+		} = {};
+		for (let [name, handler] of tags) {
+			callbacks[name] = (props, content) => handler(props, item, content);
+		}
+		return callbacks;
+	}
+
+	/** Handler for the built-in `import` tag, which adds the imported file as a partial item, and returns its source text (or a section of it) after the resolve stage */
+	private async _importTagAsync(attr: any, item: PipelineItem) {
+		let [src, section] = String(attr.src).split("#");
+		let srcPath = this._relPath(item, src!);
+		let shift = attr.shift !== undefined ? +attr.shift : 0;
+		if (!Number.isInteger(shift)) {
+			throw Error("Invalid heading shift for import: " + attr.shift);
+		}
+		if (
+			attr.data !== undefined &&
+			attr.data !== "keep" &&
+			attr.data !== "strip"
+		) {
+			throw Error("Invalid data option for import: " + attr.data);
+		}
+
+		// check for import cycles first, which would never finish
+		let source = this._sources.get(item);
+		let chain =
+			source?.importChain || (source?.fileName ? [source.fileName] : []);
+		let fileName = path.resolve(this.path, srcPath);
+		if (chain.includes(fileName)) {
+			let files = [...chain, fileName].map((f) => path.relative(".", f));
+			throw Error("Import cycle: " + files.join(" -> "));
+		}
+
+		let text = await this.readTextFileAsync(srcPath);
+		let imported = this.addSource(
+			path.join(this.path, srcPath + "__import#" + _nextImportId++),
+			text,
+			{ partial: true }
+		);
+		this._sources.get(imported)!.importChain = [...chain, fileName];
+		source?.imports?.push(imported);
+		await imported.waitAsync();
+
+		// select section and shift headings, copy front matter data if needed
+		let lines = imported.source;
+		if (section) {
+			try {
+				lines = extractMarkdownSection(lines, decodeURIComponent(section));
+			} catch {
+				throw Error("Section not found: " + attr.src);
+			}
+		}
+		if (shift) lines = shiftMarkdownHeadings(lines, shift);
+		if (attr.data === "keep") {
+			for (let key in imported.data) {
+				if (key !== "partial" && !(key in item.data)) {
+					item.data[key] = imported.data[key];
+				}
+			}
+		}
+		return lines.join("\n");
+	}
+
+	/** Handler for the built-in `code` tag, which returns a fenced code block with (part of) a source code file, or adds an error to the item if the file or region can't be found */
+	private async _codeTagAsync(attr: any, item: PipelineItem) {
+		try {
+			if (!attr.src) throw Error("Missing src attribute for code tag");
+			let srcPath = this._relPath(item, attr.src);
+			let text = await this.readTextFileAsync(srcPath);
+			let options = { region: attr.region, lines: attr.lines };
+			let lang = attr.lang ?? getSnippetLanguage(srcPath);
+			return renderCodeBlock(extractSnippet(text, options), lang);
+		} catch (err) {
+			let message = err instanceof Error ? err.message : String(err);
+			item.error(message, this._getTagLine(item, "code", attr));
+			return "";
 		}
 	}
 
-	/** Helper function that is added as a resolve transform function, handles import and insert tags, and adds assets from data */
+	/** Handler for the built-in `if` tag, which returns the (evaluated) content before or after the `else` tag depending on a data property, looked up in given scopes (innermost last) */
+	private async _ifTagAsync(
+		attr: any,
+		item: PipelineItem,
+		content: string | undefined,
+		scopes: any[]
+	) {
+		if (content === undefined)
+			throw Error("Missing closing tag <!--{{/if}}-->");
+		let value = await this._lookupAsync(item, scopes, attr.prop);
+		let result =
+			attr.equals !== undefined
+				? value != null && String(value) === attr.equals
+				: Array.isArray(value)
+				? value.length > 0
+				: !!value;
+		if (attr.not) result = !result;
+		let [then, otherwise = ""] = splitCommentTagBlock(content, "if", "else");
+		return this._replaceDataTagsAsync(result ? then! : otherwise, item, scopes);
+	}
+
+	/** Handler for the built-in `each` tag, which returns the (evaluated) content for each element of an array data property, looked up in given scopes (innermost last) */
+	private async _eachTagAsync(
+		attr: any,
+		item: PipelineItem,
+		content: string | undefined,
+		scopes: any[]
+	) {
+		if (content === undefined) {
+			throw Error("Missing closing tag <!--{{/each}}-->");
+		}
+		let list = await this._lookupAsync(item, scopes, attr.prop);
+		if (list == null) return "";
+		if (!Array.isArray(list)) throw Error("Not an array: " + attr.prop);
+
+		// remove line break after opening tag, to repeat lines as-is
+		if (content.startsWith("\n")) content = content.slice(1);
+		let result = "";
+		for (let element of list) {
+			result += await this._replaceDataTagsAsync(content, item, [
+				...scopes,
+				element,
+			]);
+		}
+		return result;
+	}
+
+	/** Helper function that replaces `if` and `each` tags in given text, as well as `insert` tags within a loop (using the current element first) */
+	private async _replaceDataTagsAsync(
+		text: string,
+		item: PipelineItem,
+		scopes: any[]
+	) {
+		let callbacks: {
+			[tagName: string]: (
+				props: any,
+				content?: string
+			) => string | Promise<string>;
+		} = {
+			if: (props, content) => this._ifTagAsync(props, item, content, scopes),
+			each: (props, content) =>
+				this._eachTagAsync(props, item, content, scopes),
+		};
+		if (scopes.length > 1) {
+			callbacks.insert = (props) => this._insertTagAsync(props, item, scopes);
+		}
+		return replaceCommentTagsAsync(text, callbacks, true);
+	}
+
+	/** Handler for the built-in `insert` and `html-insert` tags, which returns the (unescaped) text of a data property, looked up in given scopes (innermost last) */
+	private async _insertTagAsync(attr: any, item: PipelineItem, scopes: any[]) {
+		let value = await this._lookupAsync(item, scopes, attr.prop);
+		return value != null && value !== "" ? String(value) : attr.default || "";
+	}
+
+	/** Returns the value of given (dot-separated) property path from the innermost scope that includes the first property, or from the pipeline data; returns the current loop element (if any) if no property path is given */
+	private async _lookupAsync(item: PipelineItem, scopes: any[], prop?: string) {
+		if (prop === undefined) {
+			return scopes.length > 1 ? scopes[scopes.length - 1] : undefined;
+		}
+		let key = prop.split(".")[0]!;
+		for (let i = scopes.length - 1; i >= 0; i--) {
+			let scope = scopes[i];
+			if (scope != null && typeof scope === "object" && key in scope) {
+				return getDataPath(scope, prop);
+			}
+		}
+
+		// use pipeline data, adding data files as dependencies: either the
+		// file for this property, or all files if the property isn't found
+		await this._waitDataAsync();
+		let owner: Pipeline | undefined = this;
+		while (owner && !Object.prototype.hasOwnProperty.call(owner.data, key)) {
+			owner = owner._parent;
+		}
+		for (let dataFile of this._root._dataFiles) {
+			if (!owner || (dataFile.pipeline === owner && dataFile.key === key)) {
+				item.dependencies.add(dataFile.filePath);
+			}
+		}
+		return getDataPath(this.data, prop);
+	}
+
+	/** Returns a promise that is fulfilled when all data files have been loaded */
+	private async _waitDataAsync() {
+		let len = 0;
+		let dataFiles = this._root._dataFiles;
+		while (dataFiles.length > len) {
+			len = dataFiles.length;
+			await Promise.all(dataFiles.map((dataFile) => dataFile.promise));
+		}
+	}
+
+	/** Loads given data file, and sets the corresponding property of the pipeline data object */
+	private async _loadDataFileAsync(key: string, filePath: string) {
+		let text = await this._files.readTextFileAsync(filePath);
+		try {
+			this.data[key] = parseDataFile(text, filePath);
+		} catch (err) {
+			let message = err instanceof Error ? err.message : String(err);
+			throw Error("Invalid data file " + filePath + ": " + message);
+		}
+	}
+
+	/** Helper function that is added as a resolve transform function, handles registered source tags, and adds assets from data */
 	private async _builtinResolveTransform(item: PipelineItem) {
 		let pipeline = item.pipeline;
-		await item.replaceSourceTagsAsync({
-			import: async (attr) => {
-				let srcPath = pipeline._relPath(item, attr.src);
-				let text = await pipeline.readTextFileAsync(srcPath);
-				let imported = pipeline.addSource(
-					path.join(pipeline.path, srcPath + "__import#" + _nextImportId++),
-					text,
-					{ partial: true }
-				);
-				await imported.waitAsync();
-				return imported.source.join("\n");
-			},
-			insert: (attr) => item.data[attr.prop] || attr.default || "",
-		});
+
+		// replace data tags (`if` and `each`) first, then all other tags
+		let callbacks = pipeline._bindTags(pipeline._sourceTags, item);
+		let dataCallbacks: typeof callbacks = {};
+		for (let name of _dataTagNames) {
+			if (!callbacks[name]) continue;
+			dataCallbacks[name] = callbacks[name]!;
+			delete callbacks[name];
+		}
+		try {
+			await item.replaceSourceTagsAsync(dataCallbacks, true);
+			await item.replaceSourceTagsAsync(callbacks);
+		} catch (err) {
+			if (!(err instanceof CommentTagError)) throw err;
+			item.error(err.reason, pipeline._getTagErrorLine(item, err));
+		}
 
 		// handle 'assets' property as a list of asset filenames
 		if (Array.isArray(item.data.assets)) {
@@ -385,27 +1564,150 @@ export class Pipeline {
 		}
 	}
 
-	/** Helper function that is added as an output resolve transform function, handles html-import and html-insert tags */
+	/** Helper function that is added as an output resolve transform function, applies templates and handles registered output tags, html-attr tags, and links */
 	private async _builtinOutputResolveTransform(item: PipelineItem) {
 		let pipeline = item.pipeline;
 		if (item.output && item.output.text) {
 			await new Promise((r) => setTimeout(r, 1000));
-			await item.replaceOutputTagsAsync({
-				"html-import": (attr) => {
-					return pipeline.readTextFileAsync(pipeline._relPath(item, attr.src));
-				},
-				"html-insert": (attr) =>
-					attr["raw"]
-						? item.data[attr.prop] || attr.default || ""
-						: this.escapeHtml(item.data[attr.prop] || attr.default || ""),
-			});
+			if (item.data.template) await pipeline._applyTemplateAsync(item);
+			await item.replaceOutputTagsAsync(
+				pipeline._bindTags(pipeline._outputTags, item)
+			);
 			item.output = {
 				...item.output,
-				text: replaceHtmlAttrTags(item.output.text),
+				text: this._replaceMarkdownLinks(
+					item,
+					replaceHtmlAttrTags(item.output.text)
+				),
 			};
 		}
 	}
 
+	/** Helper function that wraps the output of given item in its template, and all templates that it extends */
+	private async _applyTemplateAsync(item: PipelineItem) {
+		let html = item.output!.text;
+		let names: string[] = [];
+		let name: string | undefined = String(item.data.template);
+		while (name) {
+			let template = this._templates.get(name);
+			if (!template)
+				throw Error(
+					"Unknown template referenced from " + item.path + ": " + name
+				);
+			if (names.includes(name)) {
+				throw Error(
+					"Circular template reference: " + [...names, name].join(" => ")
+				);
+			}
+			names.push(name);
+
+			// add template assets (only once)
+			if (template.assets && !template.assetsAdded) {
+				template.assetsAdded = true;
+				template.pipeline.addAssets(...template.assets);
+			}
+
+			// insert HTML into template content tag
+			let text =
+				template.file !== undefined
+					? await template.pipeline.readTextFileAsync(template.file)
+					: template.text!;
+			html = await replaceCommentTagsAsync(text, {
+				"template-content": () => html,
+			});
+			name = template.extends;
+		}
+		item.output = { ...item.output!, text: html };
+	}
+
+	/** Helper function that rewrites links to markdown files in given HTML output text, to refer to the output path of the corresponding item instead (adds warnings to the item for unknown items) */
+	private _replaceMarkdownLinks(item: PipelineItem, html: string) {
+		let fromDir = path.dirname(item.output!.path);
+		return html.replace(
+			/(\shref\s*=\s*")([^"#?:]+\.md)((?:[?#][^"]*)?)"/g,
+			(s, attr: string, href: string, rest: string) => {
+				let target: PipelineItem | undefined;
+				try {
+					let targetPath = decodeURIComponent(href).replace(/\.md$/, "");
+					target = this.find(path.join(path.dirname(item.path), targetPath));
+				} catch {}
+				let targetOutput =
+					target &&
+					!target.failed &&
+					!target.data.inactive &&
+					!target.data.partial &&
+					(target.output?.path ?? target.pipeline._getOutputPath(target));
+				if (!targetOutput) {
+					let line = item.pipeline._getSourceLine(item, href);
+					item.warn("Link to unknown item " + href, line);
+					return s;
+				}
+				let url = path
+					.relative(fromDir, targetOutput)
+					.split(path.sep)
+					.map(encodeURIComponent)
+					.join("/");
+				return attr + url + rest + '"';
+			}
+		);
+	}
+
+	/** Returns the line number (starting at 1) of the first occurrence of given text in the original source text of given item, if any */
+	private _getSourceLine(item: PipelineItem, text: string) {
+		let source = this._sources.get(item)?.text;
+		let idx = source ? source.indexOf(text) : -1;
+		if (idx < 0) return undefined;
+		return source!.slice(0, idx).split(/\r\n|\n\r|\r|\n/).length;
+	}
+
+	/** Returns the line number of the tag that caused given error in the source file of given item, if known */
+	private _getTagErrorLine(item: PipelineItem, err: CommentTagError) {
+		let source = this._sources.get(item)?.text;
+		if (source === undefined) return undefined;
+
+		// use the position of the tag itself if it's unique, otherwise
+		// add the number of front matter lines to the line within the markdown text
+		let idx = source.indexOf(err.tag);
+		if (idx >= 0 && source.indexOf(err.tag, idx + 1) < 0) {
+			return this._getSourceLine(item, err.tag);
+		}
+		let lines = source.split(/\r\n|\n\r|\r|\n/).length;
+		return err.line + lines - splitMarkdown(source).markdown.length;
+	}
+
+	/** Returns the line number of given field in the front matter of given item, if found */
+	private _getFieldLine(item: PipelineItem, field: string) {
+		let source = this._sources.get(item)?.text;
+		let name = field.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		let re = new RegExp("^[ \\t]*[\"']?" + name + "[\"']?[ \\t]*[:=]", "m");
+		let match = source?.match(re);
+		if (!match) return undefined;
+		return source!.slice(0, match.index).split(/\r\n|\n\r|\r|\n/).length;
+	}
+
+	/** Returns the line number of the first comment tag in the source text of given item with given name and attributes, if found */
+	private _getTagLine(item: PipelineItem, tagName: string, attr: any) {
+		let source = this._sources.get(item)?.text;
+		let re = /\<\!--\{\{\s*([^\>\s]+)[^\>]*\}\}--\>/g;
+		let match: RegExpMatchArray | null;
+		while (source && (match = re.exec(source))) {
+			if (match[1] !== tagName) continue;
+			let props = parseCommentTagProps(match[0]);
+			if (JSON.stringify(props) === JSON.stringify(attr)) {
+				return source.slice(0, match.index).split(/\r\n|\n\r|\r|\n/).length;
+			}
+		}
+		return undefined;
+	}
+
+	/** Returns the output path for given item (for the current pipeline), based on the `output` data property or the item path */
+	private _getOutputPath(item: PipelineItem) {
+		return item.data.output
+			? path.join(this.outputPath, item.data.output)
+			: path.join(this.outputPath, path.relative(this.path, item.path)) +
+					".html";
+	}
+
 	/** Given a pipeline item and a path relative to the item path, returns a path relative to the current pipeline path */
 	private _relPath(item: PipelineItem, src: string) {
 		let relDir = path.relative(this.path, path.dirname(item.path));
@@ -413,19 +1715,47 @@ export class Pipeline {
 	}
 
 	private _resolveStart!: () => void;
-	private _startP = new Promise<void>((r) => {
-		this._resolveStart = r;
+	private _rejectStart!: (err: unknown) => void;
+	private _startP = new Promise<void>((resolve, reject) => {
+		this._resolveStart = resolve;
+		this._rejectStart = reject;
 	});
 
-	private _sourceTransforms: Array<PipelineTransform> = [];
-	private _resolveTransforms: Array<PipelineTransform> = [];
-	private _outputTransforms: Array<PipelineTransform> = [];
-	private _outputResolveTransforms: Array<PipelineTransform> = [];
+	private _transforms: {
+		[stage in PipelineTransformStage]: PipelineTransformEntry[];
+	} = { source: [], resolve: [], output: [], "output-resolve": [] };
 
 	private _promises: Array<Promise<void>> = [];
 	private _items: PipelineItem[] = [];
 	private _allItems = new Map<string, PipelineItem>();
+	private _sources = new Map<PipelineItem, ItemSource>();
 	private _files: FileCache;
+	private _root: Pipeline = this;
+	private _completeHandlers: Array<
+		(pipeline: Pipeline) => void | Promise<void>
+	> = [];
+	private _completeP?: Promise<void>;
+	private _adding = new Set<Promise<unknown>>();
+	private _sourceTags = new Map<string, PipelineTagHandler>();
+	private _outputTags = new Map<string, PipelineTagHandler>();
+	private _templates = new Map<
+		string,
+		PipelineTemplate & { pipeline: Pipeline; assetsAdded?: boolean }
+	>();
 
 	private _parserOptions: ParserOptions = {};
+	private _schema?: PipelineSchema;
+	private _parent?: Pipeline;
+	private _pageSets: PageSet[] = [];
+	private _dataFiles: Array<{
+		pipeline: Pipeline;
+		key: string;
+		filePath: string;
+		promise: Promise<void>;
+	}> = [];
+	private _isolateErrors = false;
+	private _plugins: Array<{ plugin: PipelinePlugin; options: any }> = [];
+	private _usedPlugins: Array<{ plugin: PipelinePlugin; options: any }> = [];
+	private _stallTimeout = 60000;
+	private _lastProgress = 0;
 }
@@ -1,3 +1,4 @@
+import * as path from "path";
 import { replaceCommentTagsAsync } from "./markdown";
 import { Pipeline } from "./Pipeline";
 
@@ -23,6 +24,56 @@ export interface PipelineOutput {
 	readonly text: string;
 }
 
+/**
+ * An object that represents a heading in the HTML output of an item
+ */
+export interface PipelineHeading {
+	/** The heading level, 1-6 */
+	readonly level: number;
+
+	/** The (plain) heading text */
+	readonly text: string;
+
+	/** The heading ID, if any */
+	readonly id?: string;
+}
+
+/**
+ * The name of a transform stage, see `Pipeline.addSourceTransform()` and related methods; the `parse` stage is the step where markdown is converted to HTML
+ */
+export type PipelineStage =
+	| "source"
+	| "resolve"
+	| "parse"
+	| "output"
+	| "output-resolve";
+
+/**
+ * An object that represents a warning or error, added using `PipelineItem.warn()` or `PipelineItem.error()`, and returned by `Pipeline.report()`
+ */
+export interface PipelineDiagnostic {
+	/** The severity; errors cause the build to fail */
+	readonly severity: "warning" | "error";
+
+	/** The (plain text) message */
+	readonly message: string;
+
+	/** The path of the item that caused this warning or error, if any */
+	readonly path?: string;
+
+	/** The source file name of the item, if any (relative to the current environment directory) */
+	readonly fileName?: string;
+
+	/** The transform stage during which this warning or error was added, if any */
+	readonly stage?: PipelineStage;
+
+	/** The line number (starting at 1) in the source file, if known */
+	readonly line?: number;
+
+	/** The name of the transform function that threw an error, if known (with error isolation enabled) */
+	readonly transform?: string;
+}
+
 /**
  * Representation of an input item, its output and associated assets, if any
  */
@@ -60,9 +111,66 @@ export class PipelineItem {
 	/** File name and text content of the output file that should be written to disk, if any */
 	output?: PipelineOutput;
 
+	/** A list of all headings in the HTML output, set when the output is generated */
+	readonly headings: PipelineHeading[] = [];
+
 	/** A list of assets that should be copied on disk along with this item */
 	readonly assets: PipelineAsset[] = [];
 
+	/** The current transform stage, while transform functions are running for this item */
+	stage?: PipelineStage;
+
+	/** The name of the current transform function, if known, while transform functions are running for this item */
+	transform?: string;
+
+	/** True if an error was thrown while processing this item, with error isolation enabled (see `Pipeline.setErrorIsolation()`); failed items don't produce any output */
+	failed = false;
+
+	/** A list of all warnings and errors for this item, added using `warn()` and `error()` */
+	readonly diagnostics: PipelineDiagnostic[] = [];
+
+	/** A set of (absolute) file paths that have been read while processing this item, used to determine which items need to be updated when files change */
+	readonly dependencies = new Set<string>();
+
+	/**
+	 * Returns a list of all (absolute) file paths that this item depends on, including its source file, files read by transform functions, and asset input files.
+	 */
+	getDependencies() {
+		let result = new Set(this.dependencies);
+		for (let asset of this.assets) result.add(path.resolve(asset.input));
+		return Array.from(result);
+	}
+
+	/**
+	 * Adds a warning for this item, which is shown after the pipeline has finished (and causes the build to fail in strict mode).
+	 * @param message The warning message
+	 * @param line The line number (starting at 1) in the source file, if known
+	 */
+	warn(message: string, line?: number) {
+		this.diagnostics.push({
+			severity: "warning",
+			message,
+			path: this.path,
+			stage: this.stage,
+			line,
+		});
+	}
+
+	/**
+	 * Adds an error for this item, which causes the build to fail after the pipeline has finished. Transform functions continue to run for this item; throw an error instead to stop the pipeline.
+	 * @param message The error message
+	 * @param line The line number (starting at 1) in the source file, if known
+	 */
+	error(message: string, line?: number) {
+		this.diagnostics.push({
+			severity: "error",
+			message,
+			path: this.path,
+			stage: this.stage,
+			line,
+		});
+	}
+
 	/**
 	 * Returns a promise that is resolved when all transform functions have finished for this pipeline item.
 	 */
@@ -72,33 +180,61 @@ export class PipelineItem {
 	}
 
 	/**
-	 * Replaces special tags inside comments (e.g. `<!--{{tag attr="value"}}-->`) in the source text. Tags are replaced with return values of the corresponding callback function (based on the tag name, which is matched with properties of the object parameter).
+	 * Resets the source, data, and assets of this item, before running all transform functions again.
+	 * @note Do NOT use this method directly, it is used by the pipeline for incremental rebuilds.
+	 */
+	reset(
+		markdown: string[],
+		data: any,
+		assets: PipelineAsset[],
+		promise?: Promise<void>
+	) {
+		this.source.splice(0, this.source.length, ...markdown);
+		this.data = { ...data };
+		this.output = undefined;
+		this.assets.splice(0, this.assets.length, ...assets);
+		this.headings.splice(0, this.headings.length);
+		this.diagnostics.splice(0, this.diagnostics.length);
+		this.stage = undefined;
+		this.transform = undefined;
+		this.failed = false;
+		this.dependencies.clear();
+		this._transformPromise = promise;
+	}
+
+	/**
+	 * Replaces special tags inside comments (e.g. `<!--{{tag attr="value"}}-->`) in the source text. Tags are replaced with return values of the corresponding callback function (based on the tag name, which is matched with properties of the object parameter). Block tags (e.g. `<!--{{note}}-->...<!--{{/note}}-->`) are replaced as a whole, including their content.
 	 * @note This method must be awaited, and must be called from inside of a source/resolve transform function for it to have any effect on the generated output.
-	 * @param callbacks An object specifying callback functions. Callbacks are called with all attributes of the tag (e.g. `{ attr: "value" }` in the example above; all values are HTML-unescaped strings). Callbacks must return a string or a Promise that resolves to a string.
+	 * @param callbacks An object specifying callback functions. Callbacks are called with all attributes of the tag (e.g. `{ attr: "value" }` in the example above; all values are HTML-unescaped strings), and the enclosed text for block tags (after replacing nested tags). Callbacks must return a string or a Promise that resolves to a string.
+	 * @param raw True if the enclosed text of block tags should be passed to callback functions as-is, without replacing nested tags first
 	 */
-	async replaceSourceTagsAsync(callbacks: {
-		[tagName: string]: (props: any) => string | Promise<string>;
-	}) {
-		for (let i = 0; i < this.source.length; i++) {
-			let lines = (
-				await replaceCommentTagsAsync(this.source[i]!, callbacks)
-			).split("\n");
-			if (lines.length === 1) {
-				this.source[i] = lines[0]!;
-			} else {
-				this.source.splice(i, 1, ...lines);
-				i += lines.length - 1;
-			}
-		}
+	async replaceSourceTagsAsync(
+		callbacks: {
+			[tagName: string]: (
+				props: any,
+				content?: string
+			) => string | Promise<string>;
+		},
+		raw?: boolean
+	) {
+		let text = await replaceCommentTagsAsync(
+			this.source.join("\n"),
+			callbacks,
+			raw
+		);
+		this.source.splice(0, this.source.length, ...text.split("\n"));
 	}
 
 	/**
 	 * Replaces special tags inside comments (e.g. `<!--{{tag attr="value"}}-->`) in the output text. Tags are replaced with return values of the corresponding callback function (based on the tag name, which is matched with properties of the object parameter).
 	 * @note This method must be awaited, and must be called from inside of an output (or output resolve) transform function for it to have any effect on the generated output.
-	 * @param callbacks An object specifying callback functions. Callbacks are called with all attributes of the tag (e.g. `{ attr: "value" }` in the example above; all values are HTML-unescaped strings). Callbacks must return a string or a Promise that resolves to a string.
+	 * @param callbacks An object specifying callback functions. Callbacks are called with all attributes of the tag (e.g. `{ attr: "value" }` in the example above; all values are HTML-unescaped strings), and the enclosed HTML for block tags (after replacing nested tags). Callbacks must return a string or a Promise that resolves to a string.
 	 */
 	async replaceOutputTagsAsync(callbacks: {
-		[tagName: string]: (props: any) => string | Promise<string>;
+		[tagName: string]: (
+			props: any,
+			content?: string
+		) => string | Promise<string>;
 	}) {
 		if (this.output) {
 			this.output = {
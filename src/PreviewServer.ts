@@ -0,0 +1,160 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { PipelineItem } from "./PipelineItem";
+import { normalizeOutputPath } from "./paths";
+
+/** Content types for common file extensions, anything else is served as binary data */
+const CONTENT_TYPES: { [ext: string]: string } = {
+	".html": "text/html; charset=utf-8",
+	".htm": "text/html; charset=utf-8",
+	".css": "text/css; charset=utf-8",
+	".js": "text/javascript; charset=utf-8",
+	".mjs": "text/javascript; charset=utf-8",
+	".json": "application/json; charset=utf-8",
+	".xml": "application/xml; charset=utf-8",
+	".txt": "text/plain; charset=utf-8",
+	".md": "text/plain; charset=utf-8",
+	".svg": "image/svg+xml",
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".ico": "image/x-icon",
+	".woff": "font/woff",
+	".woff2": "font/woff2",
+	".pdf": "application/pdf",
+};
+
+/** The URL path that's used for live reload events */
+const RELOAD_PATH = "/__markdown-pipeline/reload";
+
+/** Script that's added to all HTML pages, which reloads the page when the pipeline has been rebuilt */
+const RELOAD_SCRIPT = `<script>new EventSource(${JSON.stringify(
+	RELOAD_PATH
+)}).onmessage = () => location.reload();</script>`;
+
+/**
+ * A local HTTP server that serves pipeline output from memory, and reloads open browser pages when content has been rebuilt.
+ */
+export class PreviewServer {
+	/**
+	 * Adds (or updates) the output text and assets of given items, by output path.
+	 * @param items The pipeline items to include; inactive items are removed
+	 */
+	update(items: PipelineItem[]) {
+		for (let item of items) {
+			for (let key of this._itemKeys.get(item) || []) this._files.delete(key);
+			let keys: string[] = [];
+			this._itemKeys.set(item, keys);
+			if (item.data.inactive) continue;
+			if (item.output) {
+				let key = normalizeOutputPath(item.output.path);
+				this._files.set(key, { text: item.output.text });
+				keys.push(key);
+			}
+			for (let asset of item.assets) {
+				let key = normalizeOutputPath(asset.output);
+				this._files.set(key, { input: asset.input });
+				keys.push(key);
+			}
+		}
+	}
+
+	/** Notifies all open browser pages that they should reload */
+	reload() {
+		for (let res of this._clients) res.write("data: reload\n\n");
+	}
+
+	/**
+	 * Starts listening for HTTP requests on localhost.
+	 * @param port The port number to listen on
+	 * @returns A promise for the URL of the server
+	 */
+	async listenAsync(port: number) {
+		this._server = http.createServer((req, res) => this._handle(req, res));
+		await new Promise<void>((resolve, reject) => {
+			this._server!.once("error", reject);
+			this._server!.listen(port, "localhost", resolve);
+		});
+		return "http://localhost:" + port + "/";
+	}
+
+	/** Stops the HTTP server and closes all live reload connections */
+	close() {
+		for (let res of this._clients) res.end();
+		this._clients.clear();
+		this._server?.close();
+	}
+
+	/** Handles a single HTTP request */
+	private _handle(req: http.IncomingMessage, res: http.ServerResponse) {
+		let urlPath: string;
+		try {
+			urlPath = decodeURIComponent(
+				new URL(req.url || "/", "http://localhost").pathname
+			);
+		} catch (err) {
+			res.writeHead(400, { "Content-Type": CONTENT_TYPES[".txt"] });
+			res.end("Bad request");
+			return;
+		}
+
+		// keep live reload connections open
+		if (urlPath === RELOAD_PATH) {
+			res.writeHead(200, {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+			});
+			res.write("\n");
+			this._clients.add(res);
+			req.on("close", () => this._clients.delete(res));
+			return;
+		}
+
+		// find file by exact path, index file, or with .html extension
+		let key = normalizeOutputPath(urlPath);
+		let candidates = urlPath.endsWith("/")
+			? [key + (key ? "/" : "") + "index.html"]
+			: [key, key + ".html", key + "/index.html"];
+		let found = candidates.find((k) => this._files.has(k));
+		if (found === undefined) {
+			res.writeHead(404, { "Content-Type": CONTENT_TYPES[".txt"] });
+			res.end("Not found: " + urlPath);
+			return;
+		}
+		let file = this._files.get(found)!;
+		let contentType =
+			CONTENT_TYPES[path.extname(found).toLowerCase()] ||
+			"application/octet-stream";
+
+		// serve output text (with reload script for HTML), or asset file
+		if (file.text !== undefined) {
+			let text = file.text;
+			if (contentType.startsWith("text/html")) {
+				text = /<\/body>/i.test(text)
+					? text.replace(/<\/body>/i, RELOAD_SCRIPT + "</body>")
+					: text + RELOAD_SCRIPT;
+			}
+			res.writeHead(200, { "Content-Type": contentType });
+			res.end(text);
+		} else {
+			fs.readFile(file.input!, (err, data) => {
+				if (err) {
+					res.writeHead(500, { "Content-Type": CONTENT_TYPES[".txt"] });
+					res.end(String(err));
+				} else {
+					res.writeHead(200, { "Content-Type": contentType });
+					res.end(data);
+				}
+			});
+		}
+	}
+
+	private _server?: http.Server;
+	private _clients = new Set<http.ServerResponse>();
+	private _files = new Map<string, { text?: string; input?: string }>();
+	private _itemKeys = new Map<PipelineItem, string[]>();
+}
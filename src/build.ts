@@ -0,0 +1,262 @@
+import * as fs from "fs";
+import * as path from "path";
+import { checkLinks } from "./checkLinks";
+import { FileSystemSink, OutputSink } from "./OutputSink";
+import { Pipeline } from "./Pipeline";
+import {
+	PipelineAsset,
+	PipelineDiagnostic,
+	PipelineItem,
+} from "./PipelineItem";
+
+/**
+ * Options for running a (programmatic) build using the `build()` function
+ */
+export interface BuildOptions {
+	/** The destination directory; if omitted (and no sink is specified), items are processed but no output is written */
+	destPath?: string;
+
+	/** The output sink that receives all output files and assets; overrides `destPath` */
+	sink?: OutputSink;
+
+	/** A directory for the persistent build cache, used with `destPath` only: unchanged output files and assets aren't written again, and stale output files from previous builds are removed */
+	cachePath?: string;
+
+	/** True if links in HTML output should be checked (resulting in warnings), or `strict` if broken links should result in errors */
+	checkLinks?: boolean | "strict";
+
+	/** True if any warnings should cause the build to fail (without writing any output) */
+	strict?: boolean;
+
+	/** The stall timeout in milliseconds (see `Pipeline.setStallTimeout()`), defaults to 60 seconds */
+	stallTimeout?: number;
+
+	/** True if errors thrown while processing an item should only exclude that item from the output, see `Pipeline.setErrorIsolation()`; the build still fails, but output for all other items is written */
+	isolateErrors?: boolean;
+
+	/** A list of JS module paths (relative to the current environment directory) or package names; each module should export a `start` function, or a plugin object (as `plugin`, or the module itself) which is used with default options */
+	modules?: string[];
+
+	/** A function that's called with the main pipeline, after the `start` functions of all modules */
+	start?: (pipeline: Pipeline) => void | Promise<void>;
+}
+
+/**
+ * The result of a (programmatic) build, returned by `build()` and `rebuild()`
+ */
+export interface BuildResult {
+	/** The main pipeline, which can be used to rebuild items */
+	readonly pipeline: Pipeline;
+
+	/** All items that have been processed */
+	readonly items: PipelineItem[];
+
+	/** The paths of all output files that have been written, relative to the destination directory (or sink) */
+	readonly files: string[];
+
+	/** All assets that have been copied, with output paths relative to the destination directory (or sink) */
+	readonly assets: PipelineAsset[];
+
+	/** The paths of all output files from previous builds that have been removed, if any (using a build cache) */
+	readonly removed: string[];
+
+	/** A list of all warnings and errors, with item paths and source locations where possible */
+	readonly diagnostics: PipelineDiagnostic[];
+
+	/** A list of warnings (formatted text), from item diagnostics and data */
+	readonly warnings: string[];
+
+	/** A list of errors that caused the build to fail, if any; if not empty, output may not have been written */
+	readonly errors: unknown[];
+}
+
+/**
+ * A helper function that returns a single line of text for given warning or error, e.g. `Warning (path/to/item:12): Message`
+ */
+export function formatDiagnostic(d: PipelineDiagnostic) {
+	let location = d.path ? d.path + (d.line ? ":" + d.line : "") : "";
+	let s = d.severity === "error" ? "Error" : "Warning";
+	if (location) s += " (" + location + ")";
+	if (d.severity === "error" && d.stage) {
+		s +=
+			" in " +
+			d.stage +
+			" stage" +
+			(d.transform ? " (" + d.transform + ")" : "");
+	}
+	return s + ": " + d.message;
+}
+
+/**
+ * Runs a complete build: loads all modules and runs their `start` functions, waits for all pipeline items to be processed, and writes all output files and assets to the destination directory or output sink.
+ * @note The returned promise is never rejected; errors are included in the result instead.
+ * @param options Build options, including the destination path and module paths or `start` function
+ * @returns A promise for the build result
+ */
+export async function build(options: BuildOptions): Promise<BuildResult> {
+	let pipeline = Pipeline.main(async () => {
+		// load given modules and run their `start` function, or use plugins
+		for (let modulePath of options.modules || []) {
+			let imported = await import(resolveModule(modulePath));
+			if (typeof imported.start === "function") {
+				await imported.start(pipeline);
+				continue;
+			}
+			let plugin = imported.plugin || imported.default?.plugin || imported;
+			if (typeof plugin.name !== "string") {
+				throw Error("Module is not a pipeline module or plugin: " + modulePath);
+			}
+			pipeline.use(plugin);
+		}
+		await options.start?.(pipeline);
+	});
+	if (options.isolateErrors) pipeline.setErrorIsolation(true);
+	if (options.stallTimeout !== undefined) {
+		pipeline.setStallTimeout(options.stallTimeout);
+	}
+	return completeAsync(
+		options,
+		pipeline,
+		async () => {
+			await pipeline.waitAsync();
+			return pipeline.getAllItems();
+		},
+		true
+	);
+}
+
+/**
+ * Runs an incremental build, after a previous call to `build()`: processes all items that depend on given files again, and writes their output files and assets to the destination directory or output sink.
+ * @param options Build options, only the destination path and output sink are used
+ * @param pipeline The main pipeline, from the previous build result
+ * @param fileNames The paths of all files that have changed
+ * @returns A promise for the build result, which only includes updated items
+ */
+export async function rebuild(
+	options: BuildOptions,
+	pipeline: Pipeline,
+	fileNames: string[]
+): Promise<BuildResult> {
+	return completeAsync(options, pipeline, () =>
+		pipeline.rebuildAsync(...fileNames)
+	);
+}
+
+/** Returns the path of given module, either a (relative) file path, or a package name that's resolved from the current environment directory */
+function resolveModule(name: string) {
+	if (/^[.\/\\]|^\w:|\.[cm]?js$/i.test(name) || fs.existsSync(name)) {
+		return path.resolve(name);
+	}
+	return require.resolve(name, { paths: [process.cwd()] });
+}
+
+/** Waits for items to be processed, writes their output (removing stale output after a complete build), and returns the build result */
+async function completeAsync(
+	options: BuildOptions,
+	pipeline: Pipeline,
+	getItemsAsync: () => Promise<PipelineItem[]>,
+	complete?: boolean
+): Promise<BuildResult> {
+	let result = {
+		pipeline,
+		items: [] as PipelineItem[],
+		files: [] as string[],
+		assets: [] as PipelineAsset[],
+		removed: [] as string[],
+		diagnostics: [] as PipelineDiagnostic[],
+		warnings: [] as string[],
+		errors: [] as unknown[],
+	};
+	try {
+		result.items = await getItemsAsync();
+		result.diagnostics = pipeline.report(result.items);
+
+		// check links across all items, if needed
+		if (options.checkLinks) {
+			for (let link of checkLinks(result.items, pipeline.getAllItems())) {
+				result.diagnostics.push({
+					severity: options.checkLinks === "strict" ? "error" : "warning",
+					message: link.message,
+					path: link.item.path,
+				});
+			}
+		}
+
+		// fail on errors (or warnings, in strict mode) before writing output,
+		// unless errors are isolated to failed items
+		for (let d of result.diagnostics) {
+			if (d.severity === "error" || options.strict) {
+				result.errors.push(Error(formatDiagnostic(d)));
+			}
+			if (d.severity === "warning") {
+				result.warnings.push(formatDiagnostic(d));
+			}
+		}
+		if (result.errors.length && !options.isolateErrors) return result;
+		let sink =
+			options.sink ||
+			(options.destPath !== undefined
+				? new FileSystemSink(options.destPath, options.cachePath)
+				: undefined);
+		if (sink) await writeItemsAsync(sink, result, complete);
+	} catch (err) {
+		result.errors.push(err);
+		result.diagnostics.push({
+			severity: "error",
+			message: err instanceof Error ? err.message : String(err),
+		});
+	}
+	return result;
+}
+
+/** Writes output files and copies assets for all items in given result to given sink, and adds them to the result */
+async function writeItemsAsync(
+	sink: OutputSink,
+	result: {
+		pipeline: Pipeline;
+		items: PipelineItem[];
+		files: string[];
+		assets: PipelineAsset[];
+		removed: string[];
+	},
+	complete?: boolean
+) {
+	const isOutside = (outputPath: string) =>
+		path.join(".", outputPath).startsWith("..");
+	let plugins = result.pipeline.getPlugins();
+	for (let { plugin, options } of plugins) {
+		await plugin.beforeWrite?.(result.items, options);
+	}
+	let q: Array<Promise<void>> = [];
+	for (let item of result.items) {
+		if (item.data.inactive) continue;
+
+		// write output files
+		if (item.output) {
+			if (isOutside(item.output.path)) {
+				throw Error(
+					"Output path is outside output directory: " + item.output.path
+				);
+			}
+			q.push(sink.writeTextFileAsync(item.output.path, item.output.text));
+			result.files.push(item.output.path);
+		}
+
+		// copy asset files
+		for (let asset of item.assets) {
+			if (isOutside(asset.output)) {
+				throw Error(
+					"Asset output path is outside output directory: " + asset.output
+				);
+			}
+			q.push(sink.copyFileAsync(asset.input, asset.output));
+			result.assets.push(asset);
+		}
+	}
+	await Promise.all(q);
+	if (complete && sink.cleanAsync) result.removed = await sink.cleanAsync();
+	await sink.flushAsync?.();
+	for (let { plugin, options } of plugins) {
+		await plugin.afterWrite?.(result.items, result.files, options);
+	}
+}
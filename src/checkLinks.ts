@@ -0,0 +1,113 @@
+import * as path from "path";
+import { decode } from "html-entities";
+import { PipelineItem } from "./PipelineItem";
+import { normalizeOutputPath } from "./paths";
+
+/**
+ * An object that represents a broken link, found by `checkLinks()`
+ */
+export interface BrokenLink {
+	/** The item that contains the link */
+	readonly item: PipelineItem;
+
+	/** The URL of the link, as found in the HTML output */
+	readonly url: string;
+
+	/** A description of the problem */
+	readonly message: string;
+}
+
+/**
+ * Checks all `href` and `src` attributes in the HTML output of given items: relative URLs must refer to an output file or asset, and URL fragments (e.g. `#heading-id`) must refer to an element ID in the target HTML output.
+ * @param items The items for which links should be checked
+ * @param allItems All items that may be linked to, including the items to check
+ * @returns A list of broken links
+ */
+export function checkLinks(items: PipelineItem[], allItems: PipelineItem[]) {
+	// find all output paths, with element IDs for HTML files
+	let targets = new Map<string, Set<string> | undefined>();
+	for (let item of allItems) {
+		if (item.data.inactive) continue;
+		if (item.output) {
+			let ids = /\.html?$/i.test(item.output.path)
+				? new Set(findAttributes(item.output.text, ["id", "name"]))
+				: undefined;
+			targets.set(normalizeOutputPath(item.output.path), ids);
+		}
+		for (let asset of item.assets) {
+			let key = normalizeOutputPath(asset.output);
+			if (!targets.has(key)) targets.set(key, undefined);
+		}
+	}
+
+	// check all links in HTML output
+	let result: BrokenLink[] = [];
+	for (let item of items) {
+		if (item.data.inactive || !item.output) continue;
+		if (!/\.html?$/i.test(item.output.path)) continue;
+		let from = normalizeOutputPath(item.output.path);
+		for (let url of findAttributes(item.output.text, ["href", "src"])) {
+			url = url.trim();
+			if (!url) continue;
+
+			// skip external URLs, and URLs with other protocols
+			if (/^[a-z][a-z0-9+.\-]*:|^\/\//i.test(url)) continue;
+			let [urlPath = "", fragment] = url.replace(/\?[^#]*/, "").split("#");
+			try {
+				urlPath = decodeURIComponent(urlPath);
+				fragment = fragment && decodeURIComponent(fragment);
+			} catch {
+				result.push({ item, url, message: "Invalid URL " + url });
+				continue;
+			}
+
+			// find target output path
+			let target = !urlPath
+				? from
+				: urlPath.startsWith("/")
+				? normalizeOutputPath(urlPath)
+				: normalizeOutputPath(
+						path.posix.join(path.posix.dirname(from), urlPath)
+				  );
+			if (!targets.has(target)) {
+				let index = (target ? target + "/" : "") + "index.html";
+				if (target.startsWith("..") || !targets.has(index)) {
+					result.push({ item, url, message: "Broken link to " + url });
+					continue;
+				}
+				target = index;
+			}
+
+			// check URL fragment, if any
+			let ids = targets.get(target);
+			if (fragment && ids && !ids.has(fragment)) {
+				result.push({
+					item,
+					url,
+					message: "Broken link to " + url + " (ID not found)",
+				});
+			}
+		}
+	}
+	return result;
+}
+
+/** Returns all (unescaped) values of given attributes in given HTML text */
+function findAttributes(html: string, names: string[]) {
+	let result: string[] = [];
+	let tagRe = /<[a-zA-Z][^>]*>/g;
+	let tagMatch: RegExpMatchArray | null;
+	while ((tagMatch = tagRe.exec(html))) {
+		let attrRe = new RegExp(
+			"\\s(?:" +
+				names.join("|") +
+				")\\s*=\\s*(?:\"([^\"]*)\"|'([^']*)'|([^\\s>\"']+))",
+			"gi"
+		);
+		let match: RegExpMatchArray | null;
+		while ((match = attrRe.exec(tagMatch[0]))) {
+			result.push(decode(match[1] ?? match[2] ?? match[3] ?? ""));
+		}
+	}
+	return result;
+}
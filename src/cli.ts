@@ -0,0 +1,151 @@
+import { ArchiveSink } from "./ArchiveSink";
+import {
+	build,
+	BuildOptions,
+	BuildResult,
+	formatDiagnostic,
+	rebuild,
+} from "./build";
+import { FileWatcher } from "./FileWatcher";
+import { MemorySink } from "./OutputSink";
+import { PreviewServer } from "./PreviewServer";
+
+// check command line flags, output path and module name(s)
+const args = process.argv.slice(2);
+const serve = args[0] === "serve";
+if (serve) args.shift();
+const watch = serve || args.includes("--watch");
+const dryRun = args.includes("--dry-run");
+const checkLinks = args.includes("--check-links")
+	? true
+	: args.includes("--check-links=strict")
+	? "strict"
+	: false;
+const strict = args.includes("--strict");
+const keepGoing = args.includes("--keep-going");
+const reportJson = args.includes("--report=json");
+const cacheFlag = args.find((s) => s.startsWith("--cache="));
+const cachePath = cacheFlag ? cacheFlag.slice(8) : undefined;
+const stallFlag = args.find((s) => s.startsWith("--stall-timeout="));
+const stallTimeout = stallFlag ? +stallFlag.slice(16) * 1000 : undefined;
+const portFlag = args.find((s) => s.startsWith("--port="));
+const port = portFlag ? +portFlag.slice(7) : 8080;
+const positional = args.filter((s) => !s.startsWith("--"));
+const destPath = serve ? undefined : positional.shift();
+const modules = positional;
+const invalidStall = stallTimeout !== undefined && !(stallTimeout >= 0);
+if ((!serve && !destPath) || !modules.length || !(port > 0) || invalidStall) {
+	console.error(
+		"Usage: markdown-pipeline [--watch] [--dry-run] [--check-links[=strict]] [--strict] [--keep-going] [--report=json] [--stall-timeout=<seconds>] [--cache=<dir>] <output_path> <module.js> [<module.js> ...]\n" +
+			"       markdown-pipeline serve [--port=8080] [--strict] [--report=json] <module.js> [<module.js> ...]"
+	);
+	process.exit(1);
+}
+
+/** Displays warnings and errors for given build result (as text or JSON), returns true if successful */
+function showResult(result: BuildResult, message: string) {
+	let success = !result.errors.length;
+	if (reportJson) {
+		let report = {
+			success,
+			diagnostics: result.diagnostics,
+			files: result.files,
+			removed: result.removed,
+		};
+		console.log(JSON.stringify(report, undefined, "\t"));
+		return success;
+	}
+	if (!success) {
+		console.error("Markdown pipeline failed.");
+		for (let d of result.diagnostics) console.error(formatDiagnostic(d));
+		let failed = result.items.filter((item) => item.failed);
+		if (failed.length) {
+			console.error("Failed items (" + failed.length + "):");
+			for (let item of failed) console.error("  " + item.path);
+		}
+		return false;
+	}
+	if (destPath && !result.files.length && !result.assets.length) {
+		console.log("Warning: No output generated!");
+	}
+	for (let file of result.removed) console.log("Removed: " + file);
+	if (dryRun) {
+		for (let file of result.files) console.log("Would write: " + file);
+		let copied = new Set(result.assets.map((a) => a.input + " => " + a.output));
+		for (let s of copied) console.log("Would copy: " + s);
+	}
+	console.log(result.warnings.join("\n") || message);
+	return true;
+}
+
+/** Watches all files that pipeline items depend on, and rebuilds affected items when files change */
+function watchPipeline(
+	options: BuildOptions,
+	result: BuildResult,
+	update?: (result: BuildResult) => void
+) {
+	let pipeline = result.pipeline;
+	const getDependencies = () =>
+		pipeline.getAllItems().flatMap((item) => item.getDependencies());
+
+	// rebuild one batch of changes at a time, queue others
+	let pending = new Set<string>();
+	let rebuilding = false;
+	const rebuildAsync = async () => {
+		if (rebuilding || !pending.size) return;
+		rebuilding = true;
+		let changed = Array.from(pending);
+		pending.clear();
+		console.log("Rebuilding: " + changed.join(", "));
+		let result = await rebuild(options, pipeline, changed);
+		if (showResult(result, "Rebuilt successfully.")) update?.(result);
+		watcher.update(getDependencies());
+		rebuilding = false;
+		rebuildAsync();
+	};
+
+	let watcher = new FileWatcher((changed) => {
+		for (let fileName of changed) pending.add(fileName);
+		rebuildAsync();
+	});
+	watcher.update(getDependencies());
+	console.log("Watching for changes...");
+}
+
+// run async main function
+(async () => {
+	// write to an archive file or to memory instead of a directory if needed
+	let options: BuildOptions = {
+		destPath,
+		modules,
+		checkLinks,
+		strict,
+		isolateErrors: keepGoing,
+		stallTimeout,
+		cachePath,
+	};
+	if (dryRun) options.sink = new MemorySink();
+	else if (destPath && /\.(tar|tar\.gz|tgz)$/i.test(destPath)) {
+		options.sink = new ArchiveSink(destPath);
+	}
+	let result = await build(options);
+	if (!showResult(result, "Completed successfully.")) process.exit(1);
+
+	// serve all resulting output from memory, reload when rebuilt
+	if (serve) {
+		let server = new PreviewServer();
+		server.update(result.items);
+		try {
+			console.log("Serving at " + (await server.listenAsync(port)));
+		} catch (err) {
+			console.error(err);
+			process.exit(1);
+		}
+		watchPipeline(options, result, (result) => {
+			server.update(result.items);
+			server.reload();
+		});
+	} else if (watch) {
+		watchPipeline(options, result);
+	}
+})();
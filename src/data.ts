@@ -0,0 +1,83 @@
+import * as path from "path";
+import * as yaml from "js-yaml";
+
+/**
+ * A helper function that parses the content of a data file, based on its extension: YAML (`.yml` or `.yaml`), JSON (`.json`), or CSV (`.csv`, as an array of objects, using the first line as property names)
+ * @param text The file content
+ * @param fileName The file name, used to determine the file type
+ * @returns The parsed data
+ */
+export function parseDataFile(text: string, fileName: string): any {
+	let ext = path.extname(fileName).toLowerCase();
+	switch (ext) {
+		case ".yml":
+		case ".yaml":
+			return yaml.load(text);
+		case ".json":
+			return JSON.parse(text);
+		case ".csv":
+			return parseCsv(text);
+	}
+	throw Error("Unknown data file type: " + fileName);
+}
+
+/**
+ * A helper function that parses CSV text, and returns an array of objects using the first line as property names; fields may be quoted (using `""` for quotes within quoted fields), and quoted fields may include commas and line breaks
+ */
+export function parseCsv(text: string) {
+	// split text into rows of fields, handling quotes
+	let rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		let c = text[i]!;
+		if (quoted) {
+			if (c === '"' && text[i + 1] === '"') {
+				field += c;
+				i++;
+			} else if (c === '"') quoted = false;
+			else field += c;
+		} else if (c === '"') quoted = true;
+		else if (c === ",") {
+			row.push(field);
+			field = "";
+		} else if (c === "\n" || c === "\r") {
+			if (c === "\r" && text[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else field += c;
+	}
+	if (quoted) throw Error("Unterminated quoted field in CSV text");
+	if (field || row.length) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	// use first row as property names, skip empty lines
+	let [names = [], ...data] = rows;
+	return data
+		.filter((r) => r.length > 1 || r[0])
+		.map((r) => {
+			let result: any = {};
+			names.forEach((name, i) => (result[name] = r[i] ?? ""));
+			return result;
+		});
+}
+
+/**
+ * A helper function that returns the value of a (nested) property, using a dot-separated path (e.g. `author.name`)
+ * @param data The object to start from
+ * @param dotPath The property path
+ * @returns The property value, or undefined if any of the objects along the path don't exist
+ */
+export function getDataPath(data: any, dotPath: string): any {
+	let value = data;
+	for (let key of dotPath.split(".")) {
+		if (value == null || typeof value !== "object") return undefined;
+		value = value[key];
+	}
+	return value;
+}
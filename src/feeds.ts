@@ -0,0 +1,175 @@
+import { encode } from "html-entities";
+import { PipelineItem } from "./PipelineItem";
+
+/**
+ * Options for generating an Atom or RSS feed, using `Pipeline.addFeed()`
+ */
+export interface FeedOptions {
+	/** The base URL of the site, used to generate absolute URLs from output paths */
+	baseUrl: string;
+
+	/** The feed format, defaults to `atom` */
+	format?: "atom" | "rss";
+
+	/** The title of the feed */
+	title: string;
+
+	/** The description (subtitle) of the feed */
+	description?: string;
+
+	/** The name of the author, for Atom feeds */
+	author?: string;
+
+	/** A function that selects items to include in the feed; by default, all items with a `date` property are included */
+	filter?: (item: PipelineItem) => boolean;
+
+	/** The maximum number of items to include (the most recent items, by date) */
+	limit?: number;
+}
+
+/**
+ * Options for generating a sitemap, using `Pipeline.addSitemap()`
+ */
+export interface SitemapOptions {
+	/** The base URL of the site, used to generate absolute URLs from output paths */
+	baseUrl: string;
+}
+
+/** Returns true if given item has HTML output that should be published */
+function isPage(item: PipelineItem) {
+	return (
+		!item.data.inactive &&
+		!item.data.partial &&
+		!!item.output &&
+		/\.html?$/i.test(item.output.path)
+	);
+}
+
+/** Returns the absolute URL for given item, based on its output path */
+function getUrl(baseUrl: string, item: PipelineItem) {
+	let outputPath = item.output!.path.replace(/\\/g, "/").replace(/^\.\//, "");
+	return baseUrl.replace(/\/*$/, "/") + encodeURI(outputPath);
+}
+
+/** Returns a valid date from given data property value, if possible */
+function getDate(value: unknown) {
+	if (!value) return undefined;
+	let date = value instanceof Date ? value : new Date(String(value));
+	return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * A helper function that returns the XML text for a sitemap, including all (active) items with HTML output
+ * @param items The items to include (if they have HTML output)
+ * @param options Sitemap options, including the base URL
+ */
+export function renderSitemap(items: PipelineItem[], options: SitemapOptions) {
+	let xml =
+		'<?xml version="1.0" encoding="UTF-8"?>\n' +
+		'<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n';
+	for (let item of items.filter(isPage)) {
+		xml += "<url><loc>" + encode(getUrl(options.baseUrl, item)) + "</loc>";
+		let date = getDate(item.data.updated || item.data.date);
+		if (date) xml += "<lastmod>" + date.toISOString() + "</lastmod>";
+		xml += "</url>\n";
+	}
+	return xml + "</urlset>\n";
+}
+
+/**
+ * A helper function that returns the XML text for an Atom or RSS feed, including all (active) items with HTML output that match the filter function
+ * @param items The items to include (if they have HTML output and match the filter function)
+ * @param options Feed options, including the base URL and feed title
+ */
+export function renderFeed(items: PipelineItem[], options: FeedOptions) {
+	let filter = options.filter || ((item) => !!getDate(item.data.date));
+	let entries = items
+		.filter((item) => isPage(item) && filter(item))
+		.map((item) => ({
+			url: getUrl(options.baseUrl, item),
+			title: String(item.data.title || item.headings[0]?.text || ""),
+			description: item.data.description
+				? String(item.data.description)
+				: undefined,
+			date: getDate(item.data.date) || new Date(0),
+		}))
+		.sort((a, b) => b.date.getTime() - a.date.getTime())
+		.slice(0, options.limit ?? Infinity);
+	let updated = entries[0]?.date || new Date(0);
+
+	// use RSS 2.0 format if needed
+	if (options.format === "rss") {
+		let xml =
+			'<?xml version="1.0" encoding="UTF-8"?>\n' +
+			'<rss version="2.0"><channel>\n' +
+			"<title>" +
+			encode(options.title) +
+			"</title>\n" +
+			"<link>" +
+			encode(options.baseUrl) +
+			"</link>\n" +
+			"<description>" +
+			encode(options.description || options.title) +
+			"</description>\n" +
+			"<lastBuildDate>" +
+			updated.toUTCString() +
+			"</lastBuildDate>\n";
+		for (let entry of entries) {
+			xml +=
+				"<item><title>" +
+				encode(entry.title) +
+				"</title><link>" +
+				encode(entry.url) +
+				"</link><guid>" +
+				encode(entry.url) +
+				"</guid><pubDate>" +
+				entry.date.toUTCString() +
+				"</pubDate>" +
+				(entry.description
+					? "<description>" + encode(entry.description) + "</description>"
+					: "") +
+				"</item>\n";
+		}
+		return xml + "</channel></rss>\n";
+	}
+
+	// otherwise use Atom format
+	let xml =
+		'<?xml version="1.0" encoding="UTF-8"?>\n' +
+		'<feed xmlns="http://www.w3.org/2005/Atom">\n' +
+		"<id>" +
+		encode(options.baseUrl) +
+		"</id>\n" +
+		"<title>" +
+		encode(options.title) +
+		"</title>\n" +
+		(options.description
+			? "<subtitle>" + encode(options.description) + "</subtitle>\n"
+			: "") +
+		'<link href="' +
+		encode(options.baseUrl) +
+		'"/>\n' +
+		(options.author
+			? "<author><name>" + encode(options.author) + "</name></author>\n"
+			: "") +
+		"<updated>" +
+		updated.toISOString() +
+		"</updated>\n";
+	for (let entry of entries) {
+		xml +=
+			"<entry><id>" +
+			encode(entry.url) +
+			"</id><title>" +
+			encode(entry.title) +
+			'</title><link href="' +
+			encode(entry.url) +
+			'"/><updated>' +
+			entry.date.toISOString() +
+			"</updated>" +
+			(entry.description
+				? "<summary>" + encode(entry.description) + "</summary>"
+				: "") +
+			"</entry>\n";
+	}
+	return xml + "</feed>\n";
+}
@@ -2,6 +2,8 @@ import * as yaml from "js-yaml";
 import { marked } from "marked";
 import hljs from "highlight.js";
 import { decode, encode } from "html-entities";
+import { parse as parseToml, TomlDate, TomlError } from "smol-toml";
+import { PipelineHeading } from "./PipelineItem";
 
 // avoid dependency on @types/marked here, by copying options interface:
 
@@ -29,40 +31,178 @@ export interface ParserOptions {
 }
 
 /**
- * A helper function that splits given text (lines array) into an object containing YAML front matter properties, and markdown itself (lines array).
- * @returns An object containing `markdown` (string array), `data` (object), and `warnings` (string array) properties.
+ * A helper function that splits given text (lines array) into an object containing front matter properties, and markdown itself (lines array). Front matter may be written in YAML (between `---` lines), TOML (between `+++` lines), or JSON (an object, starting with a `{` line).
+ * @returns An object containing `markdown` (string array), `data` (object), and `warnings` (array of objects with `message` and `line` properties, where `line` is a line number in the original text, if known) properties.
  */
 export function splitMarkdown(text: string) {
 	let markdown = text.split(/\r\n|\n\r|\r|\n/);
-	let warnings: string[] = [];
+	let warnings: Array<{ message: string; line?: number }> = [];
 	let data: any = {};
-	if (/^\-{3,}/.test(markdown[0]!)) {
-		// read YAML front matter into 'data' object
+	let toml = /^\+{3,}\s*$/.test(markdown[0]!);
+	if (toml || /^\-{3,}/.test(markdown[0]!)) {
+		// read YAML or TOML front matter into 'data' object
+		let end = toml ? /^\+{3,}\s*$/ : /^\-{3,}/;
 		let idx = 1;
-		let yamlStr = "";
+		let frontMatter = "";
 		while (idx < markdown.length) {
-			if (/^\-{3,}/.test(markdown[idx]!)) break;
-			yamlStr += markdown[idx++] + "\n";
+			if (end.test(markdown[idx]!)) break;
+			frontMatter += markdown[idx++] + "\n";
 		}
-		data = yaml.load(yamlStr, {
-			onWarning(e) {
-				warnings.push(String(e));
-			},
-		});
+		data = toml
+			? parseTomlFrontMatter(frontMatter, warnings)
+			: parseYamlFrontMatter(frontMatter, warnings);
 		markdown.splice(0, idx + 1);
+	} else if (/^\{\s*$/.test(markdown[0]!)) {
+		// read JSON front matter up to the closing brace
+		let idx = findJsonEnd(markdown);
+		if (idx === undefined) {
+			warnings.push({ message: "Unterminated JSON front matter", line: 1 });
+		} else {
+			let json = markdown.slice(0, idx + 1).join("\n");
+			data = parseJsonFrontMatter(json, warnings);
+			markdown.splice(0, idx + 1);
+		}
+	}
+	if (typeof data !== "object" || data === null || Array.isArray(data)) {
+		warnings.push({ message: "Front matter is not an object", line: 2 });
+		data = {};
 	}
 	return { markdown, data, warnings };
 }
 
+/** Parses YAML front matter, adding warnings and errors to given list (with line numbers in the original text) */
+function parseYamlFrontMatter(
+	text: string,
+	warnings: Array<{ message: string; line?: number }>
+) {
+	const warn = (e: yaml.YAMLException) => {
+		let line = e.mark ? e.mark.line + 2 : undefined;
+		warnings.push({ message: e.reason || e.message, line });
+	};
+	try {
+		return yaml.load(text, { onWarning: warn }) || {};
+	} catch (err) {
+		if (!(err instanceof yaml.YAMLException)) throw err;
+		warn(err);
+		return {};
+	}
+}
+
+/** Parses TOML front matter, adding errors to given list (with line numbers in the original text) */
+function parseTomlFrontMatter(
+	text: string,
+	warnings: Array<{ message: string; line?: number }>
+) {
+	try {
+		return convertTomlDates(parseToml(text));
+	} catch (err) {
+		if (!(err instanceof TomlError)) throw err;
+		let message = err.message
+			.split("\n")[0]!
+			.replace(/^Invalid TOML document: /, "");
+		warnings.push({ message, line: err.line + 1 });
+		return {};
+	}
+}
+
+/** Returns given TOML value with all (nested) dates converted to plain UTC dates, in the same way as YAML dates; local times without a date are converted to strings */
+function convertTomlDates(value: unknown): any {
+	if (value instanceof TomlDate) {
+		return value.isTime() ? value.toISOString() : new Date(value.getTime());
+	}
+	if (Array.isArray(value)) return value.map(convertTomlDates);
+	if (value && typeof value === "object") {
+		let result: any = {};
+		for (let key in value) {
+			result[key] = convertTomlDates((value as any)[key]);
+		}
+		return result;
+	}
+	return value;
+}
+
+/** Parses JSON front matter, adding errors to given list (with line numbers in the original text) */
+function parseJsonFrontMatter(
+	text: string,
+	warnings: Array<{ message: string; line?: number }>
+) {
+	try {
+		return JSON.parse(text);
+	} catch (err) {
+		if (!(err instanceof SyntaxError)) throw err;
+
+		// find line number in message, depending on the JS engine version,
+		// or find the first invalid token
+		let pos = err.message.match(/position (\d+)/);
+		let lineCol = err.message.match(/\(line (\d+) column \d+\)/);
+		let line = pos
+			? text.slice(0, +pos[1]!).split("\n").length
+			: lineCol
+			? +lineCol[1]!
+			: findJsonErrorLine(text);
+
+		// remove position and quoted JSON text from the message
+		let message = err.message
+			.replace(/, (\.\.\.)?"[\s\S]*$/, "")
+			.split("\n")[0]!
+			.replace(/ in JSON at position.*| \(line \d+ column \d+\).*/, "");
+		warnings.push({ message, line });
+		return {};
+	}
+}
+
+/** Returns the line number of the first invalid token or control character in given JSON text, or the last line if none found (i.e. unexpected end of input) */
+function findJsonErrorLine(text: string) {
+	let token = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true\b|false\b|null\b/y;
+	let inString = false;
+	for (let i = 0; i < text.length; i++) {
+		let c = text[i]!;
+		if (inString) {
+			if (c === "\\") i++;
+			else if (c === '"') inString = false;
+			else if (c < " ") return text.slice(0, i).split("\n").length;
+		} else if (c === '"') inString = true;
+		else if (/[\s{}\[\]:,]/.test(c)) continue;
+		else {
+			token.lastIndex = i;
+			let match = token.exec(text);
+			if (!match) return text.slice(0, i).split("\n").length;
+			i += match[0].length - 1;
+		}
+	}
+	return text.split("\n").length;
+}
+
+/** Returns the index of the line that ends the JSON object at the start of given lines, if any */
+function findJsonEnd(lines: string[]) {
+	let depth = 0;
+	let inString = false;
+	for (let i = 0; i < lines.length; i++) {
+		let line = lines[i]!;
+		for (let j = 0; j < line.length; j++) {
+			let c = line[j];
+			if (inString) {
+				if (c === "\\") j++;
+				else if (c === '"') inString = false;
+			} else if (c === '"') inString = true;
+			else if (c === "{" || c === "[") depth++;
+			else if ((c === "}" || c === "]") && !--depth) return i;
+		}
+	}
+	return undefined;
+}
+
 /**
  * A helper function that parses given markdown text (string or lines) asynchronously.
  * @param text The markdown input, as a string (inline markdown) or an array of strings (block level).
  * @param options Markdown parser options
+ * @param headings An array to which all headings are added, if any (block level only)
  * @returns A promise for the HTML output string.
  */
 export async function parseMarkdownAsync(
 	text: string | string[],
-	options: ParserOptions
+	options: ParserOptions,
+	headings: PipelineHeading[] = []
 ) {
 	// enable syntax highlighting by default
 	if (!options.highlight) {
@@ -72,46 +212,179 @@ export async function parseMarkdownAsync(
 		};
 	}
 
-	// disable header IDs by default, since we use our own
-	if (options.headerIds == null) options.headerIds = false;
+	// use `marked` for inline text, without heading IDs
+	if (!Array.isArray(text)) {
+		return marked.parseInline(text, { ...options, headerIds: false });
+	}
 
-	// parse heading IDs first, replace with HTML equivalent
-	if (Array.isArray(text)) {
-		text = text.map((line) =>
-			line.replace(
-				/^(\#+)[ \t]+(.*)\{\#([^\}\s]+)\}\s*$/,
-				(_s, h, t, id) =>
-					`<h${h.length} id="${id}">` +
-					marked.parseInline(t.trim(), options) +
-					`</h${h.length}>`
-			)
-		);
+	// find explicit heading IDs first, to avoid duplicates
+	let usedIds = new Set<string>();
+	for (let line of text) {
+		let match = line.match(/^\#+[ \t]+.*\{\#([^\}\s]+)\}\s*$/);
+		if (match) usedIds.add(match[1]!);
+	}
+
+	// render headings with explicit or automatic (unique) IDs
+	let renderer = new marked.Renderer();
+	renderer.heading = (html, level, raw) => {
+		let id: string | undefined;
+		let match = raw.match(/\s*\{\#([^\}\s]+)\}\s*$/);
+		if (match) {
+			id = match[1]!;
+			raw = raw.slice(0, match.index).trim();
+			html = html.replace(/\s*\{\#[^\}\s]+\}\s*$/, "");
+		} else if (options.headerIds !== false) {
+			let base = (options.headerPrefix || "") + slugify(raw);
+			id = base;
+			for (let n = 1; usedIds.has(id); n++) id = base + "-" + n;
+			usedIds.add(id);
+		}
+		headings.push({ level, text: raw, id });
+		let idAttr = id ? ` id="${encode(id)}"` : "";
+		return `<h${level}${idAttr}>${html}</h${level}>\n`;
+	};
+
+	// use `marked` with given options and renderer
+	return new Promise<string>((resolve, reject) =>
+		marked.parse(text.join("\n"), { ...options, renderer }, (err, result) => {
+			if (err) reject(err);
+			else resolve(result);
+		})
+	);
+}
+
+/**
+ * A helper function that returns a 'slug' for given heading text, to be used as an ID
+ */
+export function slugify(text: string) {
+	return (
+		text
+			.toLowerCase()
+			.trim()
+			.replace(/[^\p{L}\p{N}\s_-]/gu, "")
+			.replace(/\s+/g, "-") || "section"
+	);
+}
+
+/**
+ * A helper function that finds all (ATX-style) headings in given markdown text, outside of fenced code blocks, along with their explicit or automatic (unique) IDs
+ * @returns A list of headings, with the index of the line in the text
+ */
+export function findMarkdownHeadings(lines: string[]) {
+	let found: Array<{ index: number; level: number; text: string }> = [];
+	let fence: string | undefined;
+	for (let i = 0; i < lines.length; i++) {
+		let line = lines[i]!;
+		let fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+		if (fenceMatch) {
+			let marker = fenceMatch[1]!;
+			if (!fence) fence = marker;
+			else if (marker.startsWith(fence) && !fenceMatch[2]!.trim()) {
+				fence = undefined;
+			}
+			continue;
+		}
+		if (fence) continue;
+		let match = line.match(/^(\#{1,6})[ \t]+(.*?)(?:[ \t]+\#+)?[ \t]*$/);
+		if (match)
+			found.push({ index: i, level: match[1]!.length, text: match[2]! });
 	}
 
-	// use `marked` with given options, and parse comment tags
-	let result = !Array.isArray(text)
-		? marked.parseInline(text, options)
-		: new Promise<string>((resolve, reject) =>
-				marked.parse((text as string[]).join("\n"), options, (err, result) => {
-					if (err) reject(err);
-					else resolve(result);
-				})
-		  );
+	// use explicit IDs, or automatic IDs in the same way as `parseMarkdownAsync`
+	let usedIds = new Set<string>();
+	for (let heading of found) {
+		let match = heading.text.match(/\{\#([^\}\s]+)\}$/);
+		if (match) usedIds.add(match[1]!);
+	}
+	return found.map(({ index, level, text }) => {
+		let match = text.match(/\s*\{\#([^\}\s]+)\}$/);
+		let id = match ? match[1]! : slugify(text);
+		if (!match) {
+			let base = id;
+			for (let n = 1; usedIds.has(id); n++) id = base + "-" + n;
+			usedIds.add(id);
+		}
+		return { index, level, id };
+	});
+}
+
+/**
+ * A helper function that returns a section of given markdown text, starting with the heading that has given ID and ending before the next heading of the same or a higher level
+ * @note An error is thrown if the heading isn't found.
+ */
+export function extractMarkdownSection(lines: string[], id: string) {
+	let headings = findMarkdownHeadings(lines);
+	let idx = headings.findIndex((h) => h.id === id);
+	if (idx < 0) throw Error("Section not found: #" + id);
+	let start = headings[idx]!;
+	let next = headings.slice(idx + 1).find((h) => h.level <= start.level);
+	return lines.slice(start.index, next ? next.index : lines.length);
+}
+
+/**
+ * A helper function that shifts the levels of all headings in given markdown text, e.g. to turn `# Title` into `## Title`; levels are kept between 1 and 6
+ */
+export function shiftMarkdownHeadings(lines: string[], shift: number) {
+	let result = lines.slice();
+	for (let heading of findMarkdownHeadings(lines)) {
+		let level = Math.max(1, Math.min(6, heading.level + shift));
+		result[heading.index] = lines[heading.index]!.replace(
+			/^\#+/,
+			"#".repeat(level)
+		);
+	}
 	return result;
 }
 
+/**
+ * A helper function that returns HTML for a (nested) table of contents list, from given headings
+ * @param headings The list of headings
+ * @param min The minimum heading level to include
+ * @param max The maximum heading level to include
+ */
+export function renderTableOfContents(
+	headings: PipelineHeading[],
+	min: number,
+	max: number
+) {
+	let html = "";
+	let levels: number[] = [];
+	for (let heading of headings) {
+		if (heading.level < min || heading.level > max || !heading.id) continue;
+
+		// close deeper lists, or open a new (nested) list
+		while (levels.length && levels[levels.length - 1]! > heading.level) {
+			html += "</li></ul>";
+			levels.pop();
+		}
+		if (!levels.length || levels[levels.length - 1]! < heading.level) {
+			html += "<ul>";
+			levels.push(heading.level);
+		} else {
+			html += "</li>";
+		}
+		html += `<li><a href="#${encode(heading.id)}">${encode(heading.text)}</a>`;
+	}
+	return html + "</li></ul>".repeat(levels.length);
+}
+
 /**
  * A helper function that applies additional styles to HTML elements if they are preceded by a comment that contains a tag like <!--{{html-attr ...}}-->
  */
 export function parseHtmlAttrTags(s: string) {
 	return s.replace(
-		/(\<\!--\{\{html-attr [^\>]+\}\}--\>)\s*(\<\w+)/g,
-		(_s, tag: string, htmlStart: string) => {
+		/(\<\!--\{\{html-attr [^\>]+\}\}--\>)\s*(\<\w+)([^\>]*)/g,
+		(_s, tag: string, htmlStart: string, rest: string) => {
 			let props = parseCommentTagProps(tag);
 			for (let prop in props) {
+				// remove existing attribute (e.g. automatic heading ID) first
+				rest = rest.replace(
+					/\s([^\s\=\/]+)(?:\s*\=\s*(?:"[^"]*"|'[^']*'|[^\s"']+))?/g,
+					(a, name: string) => (name === prop ? "" : a)
+				);
 				htmlStart += ` ${prop}="${encode(props[prop])}"`;
 			}
-			return htmlStart;
+			return htmlStart + rest;
 		}
 	);
 }
@@ -135,28 +408,163 @@ export function parseCommentTagProps(tag: string): [string, any] {
 }
 
 /**
- * A helper function that replaces comment tags using results from given callback functions, asynchronously
+ * An error that's thrown by `replaceCommentTagsAsync()` if block tags aren't balanced, including the offending tag and its line number
+ */
+export class CommentTagError extends Error {
+	constructor(reason: string, tag: string, line: number, message?: string) {
+		super(message || reason + " on line " + line);
+		this.reason = reason;
+		this.tag = tag;
+		this.line = line;
+	}
+
+	/** The error message, without line numbers */
+	readonly reason: string;
+
+	/** The text of the offending tag */
+	readonly tag: string;
+
+	/** The line number (starting at 1) of the offending tag, within the text that was passed to `replaceCommentTagsAsync()` */
+	readonly line: number;
+}
+
+/**
+ * A helper function that replaces comment tags using results from given callback functions, asynchronously. Block tags (e.g. `<!--{{note}}-->...<!--{{/note}}-->`) are replaced as a whole, passing the enclosed text to the callback function as a second argument, after replacing nested tags first.
+ * @note A tag name that's used for a block tag must always be closed within the same text, otherwise a `CommentTagError` is thrown; this only applies to tags with a callback function.
+ * @param raw True if the enclosed text should be passed to callback functions as-is, without replacing nested tags (e.g. to replace them conditionally)
  */
 export async function replaceCommentTagsAsync(
 	text: string,
 	callbacks: {
-		[tagName: string]: (props: any) => string | Promise<string>;
-	}
+		[tagName: string]: (
+			props: any,
+			content?: string
+		) => string | Promise<string>;
+	},
+	raw?: boolean
 ) {
-	let result = "";
-	let lastIdx = 0;
-	let re = /\<\!--\{\{\s*([^\>\s]+)[^\>]*\}\}--\>/g;
+	// find all tags that have a callback, and closing tags
+	let tags: CommentTag[] = [];
+	let blockNames = new Set<string>();
+	let re = /\<\!--\{\{\s*(\/?)([^\>\s]+)[^\>]*\}\}--\>/g;
 	let match: RegExpMatchArray | null;
 	while ((match = re.exec(text))) {
-		let cb = callbacks[match[1]!];
-		if (cb) {
-			let tag = match[0];
-			let repl = await cb(parseCommentTagProps(tag));
+		let name = match[2]!;
+		if (!callbacks[name]) continue;
+		let closing = !!match[1];
+		if (closing) blockNames.add(name);
+		let start = match.index!;
+		let end = start + match[0].length;
+		tags.push({ tag: match[0], name, closing, start, end, children: [] });
+	}
+
+	// build a tree of (nested) block tags
+	const lineOf = (tag: CommentTag) =>
+		text.slice(0, tag.start).split("\n").length;
+	let root: CommentTag[] = [];
+	let stack: CommentTag[] = [];
+	for (let tag of tags) {
+		let open = stack[stack.length - 1];
+		if (tag.closing) {
+			if (!open) {
+				throw new CommentTagError(
+					"Unexpected closing tag " + tag.tag,
+					tag.tag,
+					lineOf(tag)
+				);
+			}
+			if (open.name !== tag.name) {
+				throw new CommentTagError(
+					"Unclosed tag " + open.tag + ", before closing tag " + tag.tag,
+					open.tag,
+					lineOf(open),
+					"Unclosed tag " +
+						open.tag +
+						" on line " +
+						lineOf(open) +
+						", before closing tag " +
+						tag.tag +
+						" on line " +
+						lineOf(tag)
+				);
+			}
+			open.close = tag;
+			stack.pop();
+			continue;
+		}
+		(open ? open.children : root).push(tag);
+		if (blockNames.has(tag.name)) stack.push(tag);
+	}
+	if (stack.length) {
+		let open = stack[stack.length - 1]!;
+		throw new CommentTagError(
+			"Unclosed tag " + open.tag,
+			open.tag,
+			lineOf(open)
+		);
+	}
+
+	// replace all tags, inner tags first
+	const replaceAsync = async (
+		start: number,
+		end: number,
+		list: CommentTag[]
+	) => {
+		let result = "";
+		let lastIdx = start;
+		for (let tag of list) {
+			let cb = callbacks[tag.name]!;
+			let props = parseCommentTagProps(tag.tag);
+			let repl = !tag.close
+				? await cb(props)
+				: raw
+				? await cb(props, text.slice(tag.end, tag.close.start))
+				: await cb(
+						props,
+						await replaceAsync(tag.end, tag.close.start, tag.children)
+				  );
 			if (typeof repl !== "string")
-				throw Error("Invalid replacement for " + tag);
-			result += text.slice(lastIdx, match.index) + repl;
-			lastIdx = match.index! + tag.length;
+				throw Error("Invalid replacement for " + tag.tag);
+			result += text.slice(lastIdx, tag.start) + repl;
+			lastIdx = tag.close ? tag.close.end : tag.end;
+		}
+		return result + text.slice(lastIdx, end);
+	};
+	return replaceAsync(0, text.length, root);
+}
+
+/**
+ * A helper function that splits the enclosed text of a block tag (e.g. `<!--{{if}}-->...<!--{{/if}}-->`) at each separator tag (e.g. `<!--{{else}}-->`), ignoring separators within nested blocks with the same tag name
+ */
+export function splitCommentTagBlock(
+	content: string,
+	tagName: string,
+	separator: string
+) {
+	let parts: string[] = [];
+	let depth = 0;
+	let lastIdx = 0;
+	let re = /\<\!--\{\{\s*(\/?)([^\>\s]+)[^\>]*\}\}--\>/g;
+	let match: RegExpMatchArray | null;
+	while ((match = re.exec(content))) {
+		if (match[2] === tagName) {
+			depth += match[1] ? -1 : 1;
+		} else if (match[2] === separator && !match[1] && !depth) {
+			parts.push(content.slice(lastIdx, match.index));
+			lastIdx = match.index! + match[0].length;
 		}
 	}
-	return result + text.slice(lastIdx);
+	parts.push(content.slice(lastIdx));
+	return parts;
+}
+
+/** A comment tag found in a text, used by `replaceCommentTagsAsync` */
+interface CommentTag {
+	tag: string;
+	name: string;
+	closing: boolean;
+	start: number;
+	end: number;
+	close?: CommentTag;
+	children: CommentTag[];
 }
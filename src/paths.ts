@@ -0,0 +1,11 @@
+import * as path from "path";
+
+/**
+ * A helper function that returns a normalized output path, using forward slashes and without leading or trailing slashes (e.g. `docs/index.html` for `./docs\index.html`); used by output sinks, the build cache, the link checker, and the preview server to compare output paths
+ */
+export function normalizeOutputPath(outputPath: string) {
+	return path.posix
+		.normalize(outputPath.replace(/\\/g, "/"))
+		.replace(/^(\.?\/)+|\/+$/g, "")
+		.replace(/^\.$/, "");
+}
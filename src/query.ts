@@ -0,0 +1,109 @@
+import { PipelineItem } from "./PipelineItem";
+
+/**
+ * An object that describes a query for pipeline items, used by `Pipeline.queryAsync()` and related methods
+ */
+export interface PipelineQuery {
+	/** A glob pattern that's matched with the item path (e.g. `blog/**`); `*` matches any characters except `/`, `**` matches any characters including `/` */
+	path?: string;
+
+	/** An object with data properties that must match (if a data property is an array, it must include the value), or a function that returns true for matching items */
+	where?: { [field: string]: unknown } | ((item: PipelineItem) => boolean);
+
+	/** The data property to sort by, prefixed with `-` for descending order (e.g. `-date`), or a compare function */
+	sort?: string | ((a: PipelineItem, b: PipelineItem) => number);
+
+	/** The maximum number of items to return */
+	limit?: number;
+}
+
+/**
+ * A helper function that returns a regular expression for given glob pattern
+ */
+export function globToRegExp(glob: string) {
+	let re = "";
+	for (let i = 0; i < glob.length; i++) {
+		let c = glob[i]!;
+		if (c === "*" && glob[i + 1] === "*") {
+			// match any path, including an empty path with trailing slash
+			if (glob[i + 2] === "/") {
+				re += "(?:.*/)?";
+				i += 2;
+			} else {
+				re += ".*";
+				i++;
+			}
+		} else if (c === "*") re += "[^/]*";
+		else if (c === "?") re += "[^/]";
+		else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+	}
+	return new RegExp("^" + re + "$");
+}
+
+/**
+ * A helper function that returns all items that match given query, in order
+ * @param items The items to filter and sort
+ * @param query The query to match
+ */
+export function runQuery(items: PipelineItem[], query: PipelineQuery) {
+	let pathRe = query.path ? globToRegExp(query.path) : undefined;
+	let where = query.where;
+	let result = items.filter((item) => {
+		if (pathRe && !pathRe.test(item.path.replace(/\\/g, "/"))) return false;
+		if (typeof where === "function") return where(item);
+		for (let field in where) {
+			let value = item.data[field];
+			let match = Array.isArray(value)
+				? value.includes(where[field])
+				: value === where[field];
+			if (!match) return false;
+		}
+		return true;
+	});
+
+	// sort by data property or using compare function
+	let sort = query.sort;
+	if (typeof sort === "function") result.sort(sort);
+	else if (sort) {
+		let desc = sort.startsWith("-");
+		let field = desc ? sort.slice(1) : sort;
+		result.sort((a, b) => {
+			let va = a.data[field];
+			let vb = b.data[field];
+			let c =
+				va == null ? (vb == null ? 0 : 1) : vb == null ? -1 : compare(va, vb);
+			return desc ? -c : c;
+		});
+	}
+	return query.limit !== undefined ? result.slice(0, query.limit) : result;
+}
+
+/**
+ * A helper function that groups items by the value(s) of given data property, e.g. `tags` or `category`; items with array values are added to multiple groups
+ * @param items The items to group, in order
+ * @param field The data property to group by
+ * @returns A map of items, by (string) value
+ */
+export function groupItems(items: PipelineItem[], field: string) {
+	let result = new Map<string, PipelineItem[]>();
+	for (let item of items) {
+		let value = item.data[field];
+		let values: unknown[] = Array.isArray(value) ? value : [value];
+		for (let v of values) {
+			if (v == null || v === "") continue;
+			let key = String(v);
+			if (!result.has(key)) result.set(key, []);
+			result.get(key)!.push(item);
+		}
+	}
+	return result;
+}
+
+/** Compares two data values, for sorting */
+function compare(a: any, b: any): number {
+	if (a instanceof Date || b instanceof Date) {
+		return new Date(a).getTime() - new Date(b).getTime();
+	}
+	if (typeof a === "number" && typeof b === "number") return a - b;
+	return String(a).localeCompare(String(b));
+}
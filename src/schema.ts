@@ -0,0 +1,172 @@
+/** The name of a data type that can be used in a front matter schema; `date` matches dates parsed from YAML (e.g. `2024-01-31`) */
+export type PipelineSchemaType =
+	| "string"
+	| "number"
+	| "boolean"
+	| "date"
+	| "array"
+	| "object";
+
+/**
+ * The definition of a single front matter field, as part of a `PipelineSchema`
+ */
+export interface PipelineSchemaField {
+	/** The expected type of the value, or a list of allowed types; values of any other type are reported and removed */
+	type?: PipelineSchemaType | PipelineSchemaType[];
+
+	/** True if the field must be set, unless a default value is specified */
+	required?: boolean;
+
+	/** A default value, used if the field isn't set (objects and arrays are copied for each item) */
+	default?: unknown;
+}
+
+/**
+ * A front matter schema, used by `Pipeline.setSchema()` to validate the data of each item
+ */
+export interface PipelineSchema {
+	/** All known fields, by name; fields that are handled by the pipeline itself (e.g. `output` and `assets`) are always included, but can be overridden */
+	fields: { [name: string]: PipelineSchemaField };
+
+	/** True if fields that aren't included in the schema are allowed; otherwise (by default) they're reported as unknown fields */
+	allowUnknown?: boolean;
+
+	/** The severity of all reported problems, i.e. `warning` (default) or `error` */
+	severity?: "warning" | "error";
+}
+
+/** A problem found by `validateData()`, for a single field */
+export interface PipelineSchemaIssue {
+	/** The field name */
+	field: string;
+
+	/** A description of the problem, including the field name */
+	message: string;
+}
+
+/** Fields that are handled by the pipeline itself, or by the built-in feeds and search index */
+const builtinFields: { [name: string]: PipelineSchemaField } = {
+	require: { type: ["string", "array"] },
+	assets: { type: "array" },
+	output: { type: "string" },
+	inactive: { type: "boolean" },
+	partial: { type: "boolean" },
+	warnings: { type: "array" },
+	template: { type: "string" },
+	page: { type: "object" },
+	title: { type: "string" },
+	description: { type: "string" },
+	date: { type: ["date", "string"] },
+	updated: { type: ["date", "string"] },
+	search: { type: "boolean" },
+};
+
+/**
+ * A helper function that validates given item data using a schema; adds default values, and removes values of the wrong type
+ * @param data The item data (modified in place)
+ * @param schema The schema to validate with
+ * @returns A list of problems, if any
+ */
+export function validateData(data: any, schema: PipelineSchema) {
+	let issues: PipelineSchemaIssue[] = [];
+	let fields = { ...builtinFields, ...schema.fields };
+	for (let name in data) {
+		let field = fields[name];
+		if (!field) {
+			if (!schema.allowUnknown) {
+				let similar = findSimilar(name, Object.keys(fields));
+				issues.push({
+					field: name,
+					message:
+						"Unknown front matter field: " +
+						name +
+						(similar ? " (did you mean " + similar + "?)" : ""),
+				});
+			}
+			continue;
+		}
+		let types: string[] = field.type
+			? Array.isArray(field.type)
+				? field.type
+				: [field.type]
+			: [];
+		let type = getType(data[name]);
+		if (data[name] !== undefined && types.length && !types.includes(type)) {
+			issues.push({
+				field: name,
+				message:
+					"Invalid type for front matter field " +
+					name +
+					": expected " +
+					types.join(" or ") +
+					", found " +
+					type,
+			});
+			delete data[name];
+		}
+	}
+	for (let name in fields) {
+		let field = fields[name]!;
+		if (data[name] !== undefined) continue;
+		if (field.default !== undefined) {
+			let value = field.default;
+			if (Array.isArray(value)) value = value.slice();
+			else if (getType(value) === "object") value = Object.assign({}, value);
+			data[name] = value;
+		} else if (field.required) {
+			issues.push({
+				field: name,
+				message: "Missing required front matter field: " + name,
+			});
+		}
+	}
+	return issues;
+}
+
+/** Returns the schema type name for given value, or another name (e.g. `null`) */
+function getType(value: unknown) {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (value instanceof Date) return "date";
+	if (typeof value === "number" && isNaN(value)) return "NaN";
+	return typeof value;
+}
+
+/** Returns the name from given list that's most similar to given name (at most 2 edits away, and relative to its length), if any */
+function findSimilar(name: string, names: string[]) {
+	let best: string | undefined;
+	let bestDistance = 3;
+	for (let other of names) {
+		let d = editDistance(name.toLowerCase(), other.toLowerCase());
+		if (d < bestDistance && d * 3 <= name.length) {
+			best = other;
+			bestDistance = d;
+		}
+	}
+	return best;
+}
+
+/** Returns the number of edits (insertions, deletions, substitutions, or transpositions) between two strings */
+function editDistance(a: string, b: string) {
+	let d: number[][] = [];
+	for (let i = 0; i <= a.length; i++) {
+		d[i] = [i];
+		for (let j = 1; j <= b.length; j++) {
+			if (!i) {
+				d[i]![j] = j;
+				continue;
+			}
+			let cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let v = Math.min(
+				d[i - 1]![j]! + 1,
+				d[i]![j - 1]! + 1,
+				d[i - 1]![j - 1]! + cost
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				v = Math.min(v, d[i - 2]![j - 2]! + 1);
+			}
+			d[i]![j] = v;
+		}
+	}
+	return d[a.length]![b.length]!;
+}
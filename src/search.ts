@@ -0,0 +1,140 @@
+import { decode } from "html-entities";
+import { PipelineItem } from "./PipelineItem";
+
+/**
+ * Options for generating a search index, using `Pipeline.addSearchIndex()`
+ */
+export interface SearchIndexOptions {
+	/** The minimum length of terms to include, defaults to 2 */
+	minTermLength?: number;
+
+	/** The maximum length of the text excerpt for each section, defaults to 160 */
+	excerptLength?: number;
+}
+
+/**
+ * The JSON structure of a search index, generated by `renderSearchIndex()`
+ */
+export interface SearchIndex {
+	/** A list of all documents, i.e. items with HTML output */
+	documents: Array<{
+		/** The output path of the document, using forward slashes */
+		url: string;
+		/** The document title, from the `title` data property or the first heading */
+		title: string;
+	}>;
+
+	/** A list of all sections, i.e. parts of documents that start with a heading */
+	sections: Array<{
+		/** The index of the document in the `documents` list */
+		doc: number;
+		/** The heading ID, if any (i.e. URL fragment) */
+		id?: string;
+		/** The heading text, if any */
+		title?: string;
+		/** The first part of the section text */
+		excerpt: string;
+	}>;
+
+	/** All terms, with a list of `[section index, count]` tuples for each term */
+	terms: { [term: string]: Array<[number, number]> };
+}
+
+/**
+ * A helper function that splits given text into lowercase search terms; this function can also be used on the client side to process search queries
+ */
+export function tokenize(text: string, minLength = 2) {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((s) => s.length >= minLength);
+}
+
+/**
+ * A helper function that returns a search index for given items, including all (active) items with HTML output unless their `search` data property is false
+ * @param items The items to include (if they have HTML output)
+ * @param options Search index options
+ */
+export function renderSearchIndex(
+	items: PipelineItem[],
+	options: SearchIndexOptions = {}
+): SearchIndex {
+	let index: SearchIndex = { documents: [], sections: [], terms: {} };
+	for (let item of items) {
+		if (item.data.inactive || item.data.partial) continue;
+		if (item.data.search === false) continue;
+		if (!item.output || !/\.html?$/i.test(item.output.path)) continue;
+
+		// add document, use body text only if there's a body tag
+		let html = item.output.text;
+		let body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+		if (body) html = body[1]!;
+		let doc = index.documents.length;
+		index.documents.push({
+			url: item.output.path.replace(/\\/g, "/").replace(/^\.\//, ""),
+			title: String(item.data.title || item.headings[0]?.text || item.path),
+		});
+
+		// add sections for each heading, and postings for each term
+		for (let section of splitSections(html)) {
+			let sectionIdx = index.sections.length;
+			let text = stripTags(section.html);
+			index.sections.push({
+				doc,
+				id: section.id,
+				title: section.title,
+				excerpt: text.slice(0, options.excerptLength ?? 160),
+			});
+			let counts = new Map<string, number>();
+			let words = [
+				...tokenize(section.title || "", options.minTermLength),
+				...tokenize(text, options.minTermLength),
+			];
+			for (let word of words) counts.set(word, (counts.get(word) || 0) + 1);
+			for (let [term, count] of counts) {
+				if (!Object.prototype.hasOwnProperty.call(index.terms, term)) {
+					index.terms[term] = [];
+				}
+				index.terms[term]!.push([sectionIdx, count]);
+			}
+		}
+	}
+	return index;
+}
+
+/** Splits given HTML text into sections, at each heading */
+function splitSections(html: string) {
+	let result: Array<{ id?: string; title?: string; html: string }> = [];
+	let re = /<h([1-6])\b([^>]*)>([\s\S]*?)<\/h\1>/gi;
+	let current: { id?: string; title?: string; html: string } = { html: "" };
+	let lastIdx = 0;
+	let match: RegExpMatchArray | null;
+	while ((match = re.exec(html))) {
+		current.html = html.slice(lastIdx, match.index);
+		if (current.title !== undefined || current.html.trim()) {
+			result.push(current);
+		}
+		let id = match[2]!.match(/\sid\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+		current = {
+			id: id ? decode(id[1] ?? id[2] ?? id[3] ?? "") : undefined,
+			title: stripTags(match[3]!),
+			html: "",
+		};
+		lastIdx = match.index! + match[0].length;
+	}
+	current.html = html.slice(lastIdx);
+	if (current.title !== undefined || current.html.trim()) result.push(current);
+	return result;
+}
+
+/** Returns plain text for given HTML, without tags, comments, scripts, and styles */
+function stripTags(html: string) {
+	return decode(
+		html
+			.replace(/<!--[\s\S]*?-->/g, " ")
+			.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, " ")
+			.replace(/<[^>]*>/g, " ")
+	)
+		.replace(/\s+/g, " ")
+		.trim();
+}
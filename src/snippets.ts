@@ -0,0 +1,96 @@
+import * as path from "path";
+import hljs from "highlight.js";
+
+/**
+ * Options for extracting a snippet from a source code file, using `extractSnippet()`
+ */
+export interface SnippetOptions {
+	/** The name of a region, marked using `#region name` and `#endregion` comments (e.g. `// #region example`); marker lines of nested regions are removed */
+	region?: string;
+
+	/** A range of lines (e.g. `10-40`, `10-`, or `12`), starting at 1; relative to the start of the region, if any */
+	lines?: string;
+}
+
+/**
+ * A helper function that extracts (part of) given source code, and removes common indentation
+ * @param text The full source code text
+ * @param options Snippet options, to select a region and/or range of lines
+ * @returns The extracted text, without leading and trailing blank lines
+ * @note An error is thrown if the region isn't found, or the line range is invalid.
+ */
+export function extractSnippet(text: string, options: SnippetOptions = {}) {
+	let lines = text.split(/\r\n|\n/);
+	if (options.region !== undefined) {
+		lines = extractRegion(lines, options.region);
+	}
+	if (options.lines !== undefined) {
+		lines = extractLines(lines, options.lines);
+	}
+
+	// remove blank lines at start and end, and common indentation
+	while (lines.length && !lines[0]!.trim()) lines.shift();
+	while (lines.length && !lines[lines.length - 1]!.trim()) lines.pop();
+	let indent: string | undefined;
+	for (let line of lines) {
+		if (!line.trim()) continue;
+		let s = line.match(/^[ \t]*/)![0];
+		if (indent === undefined) indent = s;
+		while (!s.startsWith(indent)) indent = indent.slice(0, -1);
+	}
+	let n = indent ? indent.length : 0;
+	return lines.map((line) => line.slice(n).replace(/\s+$/, "")).join("\n");
+}
+
+/**
+ * A helper function that returns a fenced code block for given code, using a longer fence if the code contains a fence itself
+ * @param code The code to include
+ * @param lang The language name, if any (used for syntax highlighting)
+ */
+export function renderCodeBlock(code: string, lang?: string) {
+	let fence = "```";
+	for (let match of code.match(/^`{3,}/gm) || []) {
+		if (match.length >= fence.length) fence = "`".repeat(match.length + 1);
+	}
+	return fence + (lang || "") + "\n" + code + "\n" + fence;
+}
+
+/**
+ * A helper function that returns the language name for given source code file name, if supported for syntax highlighting (e.g. `ts` for `api.ts`)
+ */
+export function getSnippetLanguage(fileName: string) {
+	let ext = path.extname(fileName).slice(1).toLowerCase();
+	return ext && hljs.getLanguage(ext) ? ext : undefined;
+}
+
+/** Returns the lines within given region, excluding all region marker lines */
+function extractRegion(lines: string[], name: string) {
+	const startRe = /#region[ \t]+([^\s*]+)/;
+	const endRe = /#endregion\b/;
+	let start = lines.findIndex((line) => line.match(startRe)?.[1] === name);
+	if (start < 0) throw Error("Region not found: " + name);
+	let depth = 0;
+	for (let i = start + 1; i < lines.length; i++) {
+		if (startRe.test(lines[i]!)) depth++;
+		else if (endRe.test(lines[i]!) && !depth--) {
+			return lines
+				.slice(start + 1, i)
+				.filter((line) => !startRe.test(line) && !endRe.test(line));
+		}
+	}
+	throw Error("Region not closed: " + name);
+}
+
+/** Returns the lines within given range, e.g. `10-40` */
+function extractLines(lines: string[], range: string) {
+	let match = range.match(/^\s*(\d*)\s*(?:(-)\s*(\d*))?\s*$/);
+	let start = match && match[1] ? +match[1] : 1;
+	let end = match && match[3] ? +match[3] : match?.[2] ? lines.length : start;
+	if (!match || !(match[1] || match[3]) || start < 1 || end < start) {
+		throw Error("Invalid line range: " + range);
+	}
+	if (start > lines.length) {
+		throw Error("Line range out of bounds: " + range);
+	}
+	return lines.slice(start - 1, end);
+}